@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Calendar, Settings, Download, RefreshCw, Radio, Clock, User, Music, CalendarDays, Copy, ExternalLink, Grid3X3, List, Users } from 'lucide-react';
 import { api } from './api';
-import { Station, Show, Config, ScraperStatus, CalendarInfo, DJ, BotStatus } from './types';
+import { Station, StationUpdate, Show, Config, ScraperStatus, CalendarInfo, DJ, BotStatus } from './types';
 import { CalendarComponent } from './CalendarComponent';
 
 type Tab = 'overview' | 'dashboard' | 'config' | 'caldav' | 'djs';
@@ -23,6 +23,7 @@ function App() {
   const [message, setMessage] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('calendar');
   const [overviewShows, setOverviewShows] = useState<{[station: string]: Show[]}>({});
+  const [newStationDomain, setNewStationDomain] = useState('');
 
   useEffect(() => {
     loadInitialData();
@@ -35,10 +36,10 @@ function App() {
   }, [selectedStation, selectedDate]);
 
   useEffect(() => {
-    if (selectedStation && activeTab === 'overview') {
+    if (activeTab === 'overview') {
       loadOverviewData();
     }
-  }, [selectedStation, activeTab]);
+  }, [activeTab]);
 
   const loadInitialData = async () => {
     try {
@@ -87,29 +88,25 @@ function App() {
   };
 
   const loadOverviewData = async () => {
-    if (!selectedStation) return;
-    
     try {
       setLoading(true);
       setError(null);
       
-      // Load data for the next 7 days
+      // Load data for the next 7 days, all stations in one request
       const today = new Date();
       const from = today.toISOString().split('T')[0];
       const to = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
       
-      const schedule = await api.getScheduleRange(selectedStation, from, to);
-      setOverviewShows(prev => ({
-        ...prev,
-        [selectedStation]: schedule || []
-      }));
+      const schedule = await api.getScheduleRange([], from, to);
+      const byStation: {[station: string]: Show[]} = {};
+      for (const show of schedule) {
+        byStation[show.stationDomain] = [...(byStation[show.stationDomain] || []), show];
+      }
+      setOverviewShows(byStation);
     } catch (err) {
       console.error('Error loading overview data:', err);
       setError(err instanceof Error ? err.message : 'Failed to load overview data');
-      setOverviewShows(prev => ({
-        ...prev,
-        [selectedStation]: []
-      }));
+      setOverviewShows({});
     } finally {
       setLoading(false);
     }
@@ -195,6 +192,44 @@ function App() {
     }
   };
 
+  const handleAddStation = async () => {
+    try {
+      setError(null);
+      const station = await api.addStation(newStationDomain.trim());
+      setStations(prev => [...prev, station].sort((a, b) => a.domain.localeCompare(b.domain)));
+      setNewStationDomain('');
+      setMessage(`Station ${station.domain} hinzugefügt`);
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Hinzufügen der Station');
+    }
+  };
+
+  const handleUpdateStation = async (domain: string, update: StationUpdate) => {
+    try {
+      setError(null);
+      const station = await api.updateStation(domain, update);
+      setStations(prev => prev.map(s => s.domain === domain ? station : s));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern der Station');
+    }
+  };
+
+  const handleDeleteStation = async (domain: string) => {
+    if (!window.confirm(`Station ${domain} mit allen Shows und DJs entfernen?`)) return;
+
+    try {
+      setError(null);
+      await api.deleteStation(domain);
+      setStations(prev => prev.filter(s => s.domain !== domain));
+      if (selectedStation === domain) {
+        setSelectedStation('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Entfernen der Station');
+    }
+  };
+
   const formatTime = (time: string) => {
     if (!time) return '-';
     return time;
@@ -419,7 +454,17 @@ function App() {
                       Nächster Lauf: {new Date(status.nextRun).toLocaleString('de-DE')}
                     </span>
                   )}
+                  {status.parser?.status === 'degraded' && (
+                    <span className="status-indicator status-unhealthy">Parser gestört</span>
+                  )}
                 </div>
+                {status.parser?.stations
+                  .filter(station => station.status === 'degraded')
+                  .map(station => (
+                    <div key={station.stationDomain} className="text-sm text-gray-400 mt-2">
+                      {station.stationDomain}: {station.reasons.join(', ')}
+                    </div>
+                  ))}
               </div>
             )}
 
@@ -464,10 +509,32 @@ function App() {
                           <td>
                             <div className="flex items-center gap-2">
                               <User className="w-4 h-4 text-gray-400" />
-                              {show.dj}
+                              {show.djUrl ? (
+                                <a href={show.djUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                  {show.dj}
+                                </a>
+                              ) : show.dj}
+                            </div>
+                          </td>
+                          <td>
+                            <div className="flex items-center gap-3">
+                              {show.imageUrl && (
+                                <img src={show.imageUrl} alt="" className="w-10 h-10 rounded object-cover" loading="lazy" />
+                              )}
+                              <div>
+                                <div className="font-medium">
+                                  {show.showUrl ? (
+                                    <a href={show.showUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                      {show.title}
+                                    </a>
+                                  ) : show.title}
+                                </div>
+                                {show.description && (
+                                  <div className="text-sm text-gray-400">{show.description}</div>
+                                )}
+                              </div>
                             </div>
                           </td>
-                          <td className="font-medium">{show.title}</td>
                           <td>
                             <div className="flex items-center gap-2">
                               <Music className="w-4 h-4 text-gray-400" />
@@ -641,14 +708,25 @@ function App() {
                   {djs.map(dj => (
                     <div key={dj.id} className="bg-gray-800 rounded-lg p-4">
                       <div className="flex items-center justify-between mb-2">
-                        <h3 className="font-medium text-lg">{dj.djName}</h3>
+                        <div className="flex items-center gap-3">
+                          {dj.imageUrl && (
+                            <img src={dj.imageUrl} alt="" className="w-10 h-10 rounded-full object-cover" loading="lazy" />
+                          )}
+                          <h3 className="font-medium text-lg">
+                            {dj.profileUrl ? (
+                              <a href={dj.profileUrl} target="_blank" rel="noopener noreferrer" className="hover:text-blue-400">
+                                {dj.djName}
+                              </a>
+                            ) : dj.djName}
+                          </h3>
+                        </div>
                         <span className={`px-2 py-1 rounded text-xs ${dj.isActive ? 'bg-green-500/20 text-green-400' : 'bg-gray-500/20 text-gray-400'}`}>
                           {dj.isActive ? 'Aktiv' : 'Inaktiv'}
                         </span>
                       </div>
                       
                       <div className="text-sm text-gray-400 mb-2">
-                        Station: {dj.stationDomain}
+                        Station: {dj.stationDomain}{dj.role && ` · ${dj.role}`}{!dj.onTeamPage && ' · Gast'}
                       </div>
                       
                       {dj.realName && (
@@ -658,6 +736,8 @@ function App() {
                       )}
                       
                       <div className="text-xs text-gray-500 mt-2">
+                        {dj.firstSeenAt && <>Im Team seit: {new Date(dj.firstSeenAt).toLocaleDateString('de-DE')} · </>}
+                        {dj.showCount > 0 && <>{dj.showCount} Shows ({dj.firstShowDay} – {dj.lastShowDay}) · </>}
                         Letzte Aktualisierung: {new Date(dj.lastUpdated).toLocaleString('de-DE')}
                       </div>
                     </div>
@@ -676,19 +756,96 @@ function App() {
                 <div>
                   <h3 className="text-lg font-medium mb-3">Stationen</h3>
                   <div className="space-y-2">
-                    {config.stations.map(station => (
-                      <div key={station} className="flex items-center justify-between p-3 bg-gray-800 rounded">
-                        <span>{station}</span>
-                        <span className="text-sm text-gray-400">Aktiv</span>
+                    {stations.map(station => (
+                      // Re-mounted after each save, so the inputs show the stored values
+                      <div key={JSON.stringify(station)} className="p-3 bg-gray-800 rounded space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <input
+                            type="text"
+                            defaultValue={station.name || ''}
+                            placeholder={station.domain}
+                            onBlur={(e) => e.target.value.trim() && e.target.value !== station.name &&
+                              handleUpdateStation(station.domain, { name: e.target.value.trim() })}
+                            className="form-input"
+                          />
+                          <label className="flex items-center gap-1 text-sm text-gray-400">
+                            <input
+                              type="checkbox"
+                              checked={station.enabled}
+                              onChange={(e) => handleUpdateStation(station.domain, { enabled: e.target.checked })}
+                            />
+                            Aktiv
+                          </label>
+                          <button
+                            onClick={() => handleDeleteStation(station.domain)}
+                            className="btn btn-error"
+                          >
+                            Entfernen
+                          </button>
+                        </div>
+                        <div className="text-xs text-gray-500">{station.domain}</div>
+                        <div className="grid grid-cols-3 gap-2">
+                          <div>
+                            <label className="form-label">Tage zurück</label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={30}
+                              defaultValue={station.daysBack}
+                              onBlur={(e) => Number(e.target.value) !== station.daysBack &&
+                                handleUpdateStation(station.domain, { daysBack: Number(e.target.value) })}
+                              className="form-input"
+                            />
+                          </div>
+                          <div>
+                            <label className="form-label">Tage voraus</label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={30}
+                              defaultValue={station.daysForward}
+                              onBlur={(e) => Number(e.target.value) !== station.daysForward &&
+                                handleUpdateStation(station.domain, { daysForward: Number(e.target.value) })}
+                              className="form-input"
+                            />
+                          </div>
+                          <div>
+                            <label className="form-label">Cron</label>
+                            <input
+                              type="text"
+                              defaultValue={station.cronSchedule || ''}
+                              placeholder={config.cronSchedule}
+                              onBlur={(e) => e.target.value !== (station.cronSchedule || '') &&
+                                handleUpdateStation(station.domain, { cronSchedule: e.target.value || null })}
+                              className="form-input"
+                            />
+                          </div>
+                        </div>
                       </div>
                     ))}
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={newStationDomain}
+                        onChange={(e) => setNewStationDomain(e.target.value)}
+                        placeholder="z.B. housetime.fm"
+                        className="form-input"
+                      />
+                      <button
+                        onClick={handleAddStation}
+                        disabled={!newStationDomain.trim()}
+                        className="btn btn-primary"
+                      >
+                        Hinzufügen
+                      </button>
+                    </div>
                   </div>
                 </div>
                 <div>
                   <h3 className="text-lg font-medium mb-3">Einstellungen</h3>
                   <div className="space-y-3">
                     <div>
-                      <label className="form-label">Cron Schedule</label>
+                      <label className="form-label">Cron Schedule{config.sources?.cronSchedule && ` (${config.sources.cronSchedule})`}</label>
                       <input
                         type="text"
                         value={config.cronSchedule}
@@ -697,7 +854,7 @@ function App() {
                       />
                     </div>
                     <div>
-                      <label className="form-label">Retention (Tage)</label>
+                      <label className="form-label">Retention (Tage){config.sources?.retentionDays && ` (${config.sources.retentionDays})`}</label>
                       <input
                         type="number"
                         value={config.retentionDays}
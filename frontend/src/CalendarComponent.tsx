@@ -30,8 +30,8 @@ interface CalendarComponentProps {
 export function CalendarComponent({ shows, onEventClick, onDateClick }: CalendarComponentProps) {
   // Konvertiere Shows zu Calendar Events
   const events: CalendarEvent[] = shows.map((show, index) => {
-    const startTime = moment(`${show.day} ${show.start}`, 'YYYY-MM-DD HH:mm');
-    const endTime = moment(`${show.day} ${show.end}`, 'YYYY-MM-DD HH:mm');
+    const startTime = moment(show.startAt);
+    const endTime = moment(show.endAt);
     
     return {
       id: `show-${index}`,
@@ -1,4 +1,4 @@
-import { ApiResponse, Station, Show, Config, ScraperStatus, CalDAVResponse, CalendarInfo, DJ, BotStatus } from './types';
+import { ApiResponse, Station, StationUpdate, Show, ShowChange, Config, ScraperStatus, ScrapeJob, CalDAVResponse, CalendarInfo, DJ, BotStatus } from './types';
 
 const API_BASE = '/api';
 
@@ -13,7 +13,9 @@ class ApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // Validation errors come with a message from the API
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `HTTP ${response.status}: ${response.statusText}`);
     }
 
     return await response.json();
@@ -28,38 +30,114 @@ class ApiClient {
     return response.data || [];
   }
 
+  async addStation(domain: string, station: StationUpdate = {}): Promise<Station> {
+    const response = await this.request<Station>('/stations', {
+      method: 'POST',
+      body: JSON.stringify({ domain, ...station }),
+    });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to add station');
+    }
+    return response.data;
+  }
+
+  async updateStation(domain: string, update: StationUpdate): Promise<Station> {
+    const response = await this.request<Station>(`/stations/${domain}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update station');
+    }
+    return response.data;
+  }
+
+  async deleteStation(domain: string): Promise<void> {
+    const response = await this.request(`/stations/${domain}`, {
+      method: 'DELETE',
+    });
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to remove station');
+    }
+  }
+
+  // Schedule queries are paged; follows the cursor to the last page
+  private async requestShows(endpoint: string, params: URLSearchParams, failure: string): Promise<Show[]> {
+    const shows: Show[] = [];
+    let cursor: string | null | undefined;
+    params.set('limit', '1000');
+
+    do {
+      if (cursor) params.set('cursor', cursor);
+      const response = await this.request<Show[]>(`${endpoint}?${params}`);
+      if (!response.success) {
+        throw new Error(response.error || failure);
+      }
+      shows.push(...(response.data || []));
+      cursor = response.nextCursor;
+    } while (cursor);
+
+    return shows;
+  }
+
   // Schedule
   async getSchedule(station: string, date?: string): Promise<Show[]> {
     const params = new URLSearchParams({ station });
     if (date) params.append('date', date);
-    
-    const response = await this.request<Show[]>(`/schedule?${params}`);
-    if (!response.success) {
-      throw new Error(response.error || 'Failed to fetch schedule');
-    }
-    return response.data || [];
+
+    return this.requestShows('/schedule', params, 'Failed to fetch schedule');
   }
 
-  async getScheduleRange(station: string, from: string, to: string): Promise<Show[]> {
-    const params = new URLSearchParams({ station, from, to });
-    
-    const response = await this.request<Show[]>(`/schedule/range?${params}`);
+  // All stations when none are given
+  async getScheduleRange(stations: string[], from: string, to: string): Promise<Show[]> {
+    const params = new URLSearchParams({ from, to });
+    if (stations.length > 0) params.append('station', stations.join(','));
+
+    return this.requestShows('/schedule/range', params, 'Failed to fetch schedule range');
+  }
+
+  // Changes
+  async getChanges(station?: string, since?: string): Promise<ShowChange[]> {
+    const params = new URLSearchParams();
+    if (station) params.append('station', station);
+    if (since) params.append('since', since);
+
+    const response = await this.request<ShowChange[]>(`/changes?${params}`);
     if (!response.success) {
-      throw new Error(response.error || 'Failed to fetch schedule range');
+      throw new Error(response.error || 'Failed to fetch changes');
     }
     return response.data || [];
   }
 
   // Scraper
-  async startScrape(station?: string, dates?: string[]): Promise<void> {
-    const response = await this.request('/scrape', {
+  async startScrape(station?: string, dates?: string[], force?: boolean): Promise<ScrapeJob> {
+    const response = await this.request<ScrapeJob>('/scrape', {
       method: 'POST',
-      body: JSON.stringify({ station, dates }),
+      body: JSON.stringify({ station, dates, force }),
     });
     
-    if (!response.success) {
+    if (!response.success || !response.data) {
       throw new Error(response.error || 'Failed to start scrape');
     }
+    return response.data;
+  }
+
+  async getScrapeJob(id: number): Promise<ScrapeJob> {
+    const response = await this.request<ScrapeJob>(`/scrape/jobs/${id}`);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch scrape job');
+    }
+    return response.data;
+  }
+
+  async cancelScrapeJob(id: number): Promise<ScrapeJob> {
+    const response = await this.request<ScrapeJob>(`/scrape/jobs/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to cancel scrape job');
+    }
+    return response.data;
   }
 
   // Config
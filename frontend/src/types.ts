@@ -2,19 +2,39 @@ export interface Station {
   domain: string;
   name?: string;
   enabled: boolean;
+  daysBack: number;
+  daysForward: number;
+  cronSchedule?: string;
   lastScraped?: string;
 }
 
+export interface StationUpdate {
+  name?: string;
+  enabled?: boolean;
+  daysBack?: number;
+  daysForward?: number;
+  cronSchedule?: string | null; // null: global cron schedule
+}
+
 export interface Show {
   id?: number;
   day: string;
   stationDomain: string;
   dj: string;
+  performers?: string[];
   title: string;
   start: string;
   end: string;
+  startAt: string;
+  endAt: string;
   style: string;
+  description?: string;
+  imageUrl?: string;
+  showUrl?: string;
+  djUrl?: string;
+  status?: 'scheduled' | 'changed' | 'cancelled';
   createdAt?: string;
+  updatedAt?: string;
 }
 
 export interface Config {
@@ -23,6 +43,8 @@ export interface Config {
   retentionDays: number;
   httpProxy?: string;
   httpsProxy?: string;
+  noProxy?: string;
+  sources?: Partial<Record<keyof Omit<Config, 'sources'>, 'default' | 'env' | 'database'>>;
 }
 
 export interface ApiResponse<T = any> {
@@ -30,6 +52,29 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  nextCursor?: string | null;
+}
+
+export interface ShowValues {
+  dj: string;
+  title: string;
+  start: string;
+  end: string;
+  startAt: string;
+  endAt: string;
+  style: string;
+}
+
+export interface ShowChange {
+  id: number;
+  showId: number;
+  stationDomain: string;
+  day: string;
+  changeType: 'added' | 'changed' | 'cancelled';
+  changedFields: (keyof ShowValues)[];
+  oldValues?: ShowValues;
+  newValues?: ShowValues;
+  detectedAt: string;
 }
 
 export interface ScheduleQuery {
@@ -39,9 +84,56 @@ export interface ScheduleQuery {
   to?: string;
 }
 
+export interface ParserHealth {
+  stationDomain: string;
+  status: 'ok' | 'degraded';
+  reasons: string[];
+  since: string;
+  checkedAt: string;
+}
+
 export interface ScraperStatus {
   isRunning: boolean;
   nextRun?: string;
+  currentJob?: number;
+  queuedJobs: number[];
+  parser?: {
+    status: 'ok' | 'degraded';
+    stations: ParserHealth[];
+  };
+}
+
+export type ScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScrapeJobItem {
+  station: string;
+  date: string;
+  status: 'pending' | 'running' | 'done' | 'unchanged' | 'failed' | 'skipped' | 'cancelled';
+  showsFound?: number;
+  changes?: number;
+  error?: string;
+}
+
+export interface ScrapeJob {
+  id: number;
+  trigger: 'cron' | 'manual' | 'api';
+  status: ScrapeJobStatus;
+  stations: string[];
+  dates: string[];
+  force: boolean;
+  progress: {
+    total: number;
+    finished: number;
+    failed: number;
+    unchanged: number;
+    current?: { station: string; date: string };
+    items: ScrapeJobItem[];
+  };
+  cancelRequested: boolean;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
 }
 
 export interface CalendarInfo {
@@ -70,7 +162,17 @@ export interface DJ {
   stationDomain: string;
   djName: string;
   realName?: string;
+  role?: string;
+  profileUrl?: string;
+  imageUrl?: string;
   isActive: boolean;
+  onTeamPage: boolean;
+  inSchedule: boolean;
+  firstSeenAt?: string;
+  lastSeenAt?: string;
+  firstShowDay?: string;
+  lastShowDay?: string;
+  showCount: number;
   lastUpdated: string;
 }
 
@@ -0,0 +1,141 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { db } from '../database';
+import { apiRoutes } from '../routes/api';
+import { stationRegistry } from '../stations';
+import { FakeStation, loadFixture } from './helpers/fake-station';
+
+describe('API routes', () => {
+  let app: FastifyInstance;
+  let station: FakeStation;
+
+  beforeAll(async () => {
+    station = await FakeStation.start('technobase.fm');
+    stationRegistry.register(station.adapter);
+    await db.upsertStation({ domain: 'technobase.fm', name: 'Technobase.FM', enabled: true });
+
+    app = Fastify();
+    await app.register(apiRoutes);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await station.close();
+  });
+
+  it('should report the bot status', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/bot/status' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ success: true, data: { enabled: false } });
+  });
+
+  it('should list the schedule changes', async () => {
+    const show = {
+      day: '2025-10-15', startAt: '2025-10-15T06:00:00.000Z', endAt: '2025-10-15T08:00:00.000Z', start: '08:00', end: '10:00',
+      dj: 'DJ Alpha', title: 'Morning Session', style: 'Techno', stationDomain: 'technobase.fm'
+    };
+    await db.reconcileShows('technobase.fm', '2025-10-15', [show]);
+    await db.upsertDay({ stationDomain: 'technobase.fm', day: '2025-10-15', scrapedAt: new Date() });
+    await db.reconcileShows('technobase.fm', '2025-10-15', []);
+
+    const response = await app.inject({ method: 'GET', url: '/api/changes?station=technobase.fm&type=cancelled' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data).toEqual([expect.objectContaining({ day: '2025-10-15', changeType: 'cancelled' })]);
+
+    const invalid = await app.inject({ method: 'GET', url: '/api/changes?type=moved' });
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  it('should preview the team pages without storing them', async () => {
+    station.team = loadFixture('wao/team.html');
+
+    const response = await app.inject({ method: 'POST', url: '/api/bot/scrape-djs/dry-run', payload: {} });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data).toEqual([
+      expect.objectContaining({ stationDomain: 'technobase.fm', applied: false })
+    ]);
+    expect(await db.getBotDJs('technobase.fm')).toHaveLength(0);
+
+    const unknown = await app.inject({ method: 'POST', url: '/api/bot/scrape-djs/dry-run', payload: { station: 'housetime.fm' } });
+    expect(unknown.statusCode).toBe(404);
+    expect(unknown.json().error).toBe('Station not found: housetime.fm');
+  });
+
+  it('should reject aliases that are not names when splitting a DJ', async () => {
+    await db.upsertBotDJ({ stationDomain: 'technobase.fm', djName: 'DJ Hotel', isActive: true });
+    const hotel = (await db.findDJ('DJ Hotel'))!;
+
+    for (const payload of [{ aliases: [1] }, { aliases: [' '] }, { aliases: ['DJ Hotel'], name: 7 }]) {
+      const response = await app.inject({ method: 'POST', url: `/api/djs/${hotel.id}/split`, payload });
+      expect(response.statusCode).toBe(400);
+    }
+  });
+
+  it('should reject cron schedules that are not strings', async () => {
+    const station = await app.inject({ method: 'PATCH', url: '/api/stations/technobase.fm', payload: { cronSchedule: 5 } });
+    expect(station.statusCode).toBe(400);
+    expect(station.json().error).toBe('cronSchedule must be a string');
+
+    const created = await app.inject({ method: 'POST', url: '/api/stations', payload: { domain: 'housetime.fm', cronSchedule: {} } });
+    expect(created.statusCode).toBe(400);
+
+    const settings = await app.inject({ method: 'PUT', url: '/api/config', payload: { cronSchedule: { minute: 5 } } });
+    expect(settings.statusCode).toBe(400);
+    expect(settings.json().error).toBe('cronSchedule must be a string');
+  });
+
+  it('should reject unknown settings and values of the wrong type', async () => {
+    const unknown = await app.inject({ method: 'PUT', url: '/api/config', payload: { retentionDays: 30, dataDir: '/tmp' } });
+    expect(unknown.statusCode).toBe(400);
+    expect(unknown.json().error).toBe('Unknown setting: dataDir');
+
+    const wrongType = await app.inject({ method: 'PUT', url: '/api/config', payload: { retentionDays: '30' } });
+    expect(wrongType.statusCode).toBe(400);
+    expect(wrongType.json().error).toBe('retentionDays must be a number');
+
+    const stations = await app.inject({ method: 'PUT', url: '/api/config', payload: { stations: 'technobase.fm' } });
+    expect(stations.statusCode).toBe(400);
+    expect(await db.getSettings()).toEqual({});
+  });
+
+  it('should refuse an import that refers to a missing station', async () => {
+    const payload = {
+      format: 'wao-base-export', version: 1, exportedAt: new Date().toISOString(),
+      stations: [], djs: [], botUsers: [], preferences: [], favorites: [],
+      shows: [{
+        day: '2025-10-15', stationDomain: 'housetime.fm', dj: 'DJ Alpha', title: 'Morning Session',
+        start: '08:00', end: '10:00', startAt: '2025-10-15T06:00:00.000Z', endAt: '2025-10-15T08:00:00.000Z', style: 'Techno'
+      }]
+    };
+
+    const response = await app.inject({ method: 'POST', url: '/api/admin/import', payload });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe('Invalid export: show 1: unknown station housetime.fm');
+  });
+
+  it('should page through the schedule by default', async () => {
+    const shows = Array.from({ length: 101 }, (_, i) => {
+      const startAt = new Date(Date.UTC(2025, 10, 1, 0, i)).toISOString();
+      return {
+        day: '2025-11-01', startAt, endAt: startAt, start: '01:00', end: '01:01',
+        dj: 'DJ India', title: `Minute ${i}`, style: 'Techno', stationDomain: 'technobase.fm'
+      };
+    });
+    await db.reconcileShows('technobase.fm', '2025-11-01', shows);
+
+    const first = await app.inject({ method: 'GET', url: '/api/schedule?date=2025-11-01' });
+    expect(first.json().data).toHaveLength(100);
+    expect(first.json().nextCursor).toEqual(expect.any(String));
+
+    const last = await app.inject({ method: 'GET', url: `/api/schedule?date=2025-11-01&cursor=${first.json().nextCursor}` });
+    expect(last.json().data).toHaveLength(1);
+    expect(last.json()).toHaveProperty('nextCursor', null);
+
+    const oversized = await app.inject({ method: 'GET', url: '/api/schedule?date=2025-11-01&limit=5000' });
+    expect(oversized.json().data).toHaveLength(101);
+  });
+});
@@ -0,0 +1,103 @@
+import { config } from '../config';
+import { db } from '../database';
+import { ScheduleScraper } from '../scraper';
+import { BackupService } from '../services/backup';
+import { ParserHealthService } from '../services/parser-health';
+import { saveScrapedShows } from '../services/schedule-store';
+import { SchedulerService } from '../services/scheduler';
+import { SettingsService } from '../services/settings';
+import { stationRegistry } from '../stations';
+import { loadFixture } from './helpers/fake-station';
+
+describe('BackupService', () => {
+  let backups: BackupService;
+
+  beforeAll(async () => {
+    await db.upsertStation({ domain: 'technobase.fm', name: 'Technobase.FM', enabled: true });
+    const scraper = new ScheduleScraper(stationRegistry.resolve('technobase.fm'));
+    const shows = scraper.resolveShowTimes(scraper.parseShows(loadFixture('wao/schedule-regular.html')).shows, '2025-10-15');
+    await saveScrapedShows('technobase.fm', '2025-10-15', shows);
+
+    await db.upsertBotUser({ telegramId: 1, username: 'listener', languageCode: 'de', isActive: true });
+    await db.upsertBotUserPreferences({ telegramId: 1, notificationTimes: ['30m', '2h'], timezone: 'Europe/Berlin' });
+    await db.addBotFavoriteDJ(1, 'technobase.fm', 'DJ Alpha');
+
+    const scheduler = new SchedulerService(new ParserHealthService(null));
+    backups = new BackupService(scheduler, new SettingsService(scheduler));
+  });
+
+  it('should restore the data of an export into an empty instance', async () => {
+    const exported = await db.exportData();
+    expect(exported.shows).toHaveLength(5);
+
+    await db.deleteStation('technobase.fm');
+    await db.upsertBotUser({ telegramId: 1, username: 'listener', languageCode: 'de', isActive: false });
+    const restored = await backups.importData(exported);
+    expect(restored).toMatchObject({ stations: 1, shows: 5, botUsers: 0, preferences: 0, favorites: 0 });
+
+    const again = await db.exportData();
+    expect(again.stations).toEqual(exported.stations);
+    expect(again.shows).toEqual(exported.shows);
+    expect(again.favorites).toEqual(exported.favorites);
+    expect((await db.getBotUser(1))?.isActive).toBe(false); // existing rows win
+    expect((await db.getBotDJs('technobase.fm')).map(dj => dj.djName)).toContain('DJ Alpha');
+  });
+
+  it('should read exports written as NDJSON', async () => {
+    const ndjson = await backups.exportData('ndjson');
+    const lines = ndjson.trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines[0]).toMatchObject({ format: 'wao-base-export', version: 1 });
+    expect(lines.filter(line => line.type === 'show')).toHaveLength(5);
+
+    const { exportedAt, ...data } = backups.parseExport(ndjson);
+    const { exportedAt: jsonExportedAt, ...json } = backups.parseExport(await backups.exportData('json'));
+    expect(data).toEqual(json);
+    expect(() => backups.parseExport('{"format":"other"}')).toThrow('Not a wao-base export');
+  });
+
+  it('should reject records that lack fields or refer to unknown stations', async () => {
+    const exported = await db.exportData();
+    const { title, ...untitled } = exported.shows[2];
+
+    expect(() => backups.parseExport(JSON.stringify({ ...exported, shows: [exported.shows[0], untitled] })))
+      .toThrow('show 2: title must be a string');
+    expect(() => backups.parseExport(JSON.stringify({ ...exported, stations: [{ domain: 'housetime.fm' }] })))
+      .toThrow('station 1: enabled must be a boolean');
+
+    const orphan = backups.parseExport(JSON.stringify({
+      ...exported,
+      shows: [{ ...exported.shows[0], stationDomain: 'housetime.fm' }]
+    }));
+    await expect(backups.checkReferences(orphan)).rejects.toThrow('show 1: unknown station housetime.fm');
+
+    // The station is created by the same import
+    const withStation = { ...orphan, stations: [{ domain: 'housetime.fm', name: 'HouseTime.FM', enabled: true, daysBack: 1, daysForward: 5 }] };
+    await expect(backups.checkReferences(withStation)).resolves.toBeUndefined();
+
+    const strangers = { ...exported, botUsers: [], favorites: [{ ...exported.favorites[0], telegramId: 99 }] };
+    await expect(backups.checkReferences(strangers)).rejects.toThrow('favorite 1: unknown bot user 99');
+  });
+
+  it('should keep only the newest backups', async () => {
+    config.backupKeep = 2;
+    for (let i = 0; i < 3; i++) {
+      await backups.createBackup();
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(backups.listBackups().filter(backup => backup.kind === 'backup')).toHaveLength(2);
+  });
+
+  it('should restore a backup and keep the state it replaced', async () => {
+    const backup = await backups.createBackup();
+    await db.upsertBotUser({ telegramId: 2, languageCode: 'en', isActive: true });
+
+    const previous = await backups.restoreBackup(backup.name);
+
+    expect(await db.getBotUser(2)).toBeNull();
+    expect(await db.getShows('technobase.fm', '2025-10-15')).toHaveLength(5);
+    expect(backups.getBackup(previous.name)).not.toBeNull();
+    await expect(backups.restoreBackup('../schedule.db')).rejects.toThrow('Backup not found');
+  });
+});
@@ -0,0 +1,344 @@
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import { config } from '../config';
+import { db } from '../database';
+import { ScheduleScraper } from '../scraper';
+import { saveScrapedShows } from '../services/schedule-store';
+import { SnapshotService } from '../services/snapshot-service';
+import { stationRegistry } from '../stations';
+import { ScrapedShow, Show } from '../types';
+import { loadFixture } from './helpers/fake-station';
+
+describe('DatabaseManager', () => {
+  const scraper = new ScheduleScraper(stationRegistry.resolve('technobase.fm'));
+
+  // Shows as the scraper would deliver them for a recorded page
+  const parseFixture = (fixture: string, day: string): ScrapedShow[] =>
+    scraper.resolveShowTimes(scraper.parseShows(loadFixture(fixture)).shows, day);
+
+  beforeAll(async () => {
+    await db.upsertStation({ domain: 'technobase.fm', name: 'Technobase.FM', enabled: true });
+  });
+
+  describe('reconcileShows', () => {
+    it('should not report changes for the first scrape of a day', async () => {
+      const changes = await saveScrapedShows('technobase.fm', '2025-10-15', parseFixture('wao/schedule-regular.html', '2025-10-15'));
+
+      expect(changes).toHaveLength(0);
+      expect(await db.getShows('technobase.fm', '2025-10-15')).toHaveLength(5);
+      expect(await db.getDays('technobase.fm')).toHaveLength(1);
+    });
+
+    it('should cancel and restore shows missing from a later scrape', async () => {
+      const shows = parseFixture('wao/schedule-regular.html', '2025-10-15');
+
+      const cancelled = await saveScrapedShows('technobase.fm', '2025-10-15', shows.filter(show => show.dj !== 'DJ Bravo'));
+      expect(cancelled.map(change => [change.changeType, change.oldValues?.dj])).toEqual([['cancelled', 'DJ Bravo']]);
+      expect(await db.getShows('technobase.fm', '2025-10-15')).toHaveLength(4);
+      expect(await db.getShows('technobase.fm', '2025-10-15', undefined, undefined, true)).toHaveLength(5);
+
+      const restored = await saveScrapedShows('technobase.fm', '2025-10-15', shows);
+      expect(restored.map(change => [change.changeType, change.newValues?.dj])).toEqual([['added', 'DJ Bravo']]);
+      expect(await db.getShows('technobase.fm', '2025-10-15')).toHaveLength(5);
+    });
+
+    it('should store show metadata and refresh it silently', async () => {
+      const shows = parseFixture('wao/schedule-regular.html', '2025-10-15');
+      const [stored] = await db.getShows('technobase.fm', '2025-10-15');
+      expect(stored).toMatchObject({
+        description: 'Der Start in den Tag mit treibendem Techno.',
+        showUrl: 'https://www.technobase.fm/show/morning-rush',
+        djUrl: 'https://www.technobase.fm/dj/alpha'
+      });
+
+      shows[0] = { ...shows[0], description: 'Neuer Text', imageUrl: undefined };
+      const changes = await saveScrapedShows('technobase.fm', '2025-10-15', shows);
+
+      expect(changes).toHaveLength(0);
+      const [refreshed] = await db.getShows('technobase.fm', '2025-10-15');
+      expect(refreshed).toMatchObject({ id: stored.id, description: 'Neuer Text', imageUrl: undefined, status: 'scheduled' });
+    });
+
+    it('should list recorded changes in order', async () => {
+      const changes = await db.getShowChanges({ stationDomain: 'technobase.fm' });
+
+      expect(changes.map(change => change.changeType)).toEqual(['cancelled', 'added']);
+      expect(await db.getShowChanges({ changeType: 'added' })).toHaveLength(1);
+    });
+
+    it('should find shows by each of their performers', async () => {
+      const shows = parseFixture('wao/schedule-regular.html', '2025-10-15');
+      shows[1] = { ...shows[1], dj: 'DJ Bravo b2b Charlie Beats' };
+      await saveScrapedShows('technobase.fm', '2025-10-15', shows);
+
+      const [b2b] = await db.getShows('technobase.fm', '2025-10-15', undefined, undefined, false, 'bravo');
+      expect(b2b.performers).toEqual(['DJ Bravo', 'Charlie Beats']);
+
+      const charlie = await db.getShows('technobase.fm', '2025-10-15', undefined, undefined, false, 'Charlie Beats');
+      expect(charlie.map(show => show.dj)).toEqual(['DJ Bravo b2b Charlie Beats', 'Charlie Beats']);
+
+      // Back to the recorded schedule; the lineup follows the DJ field
+      await saveScrapedShows('technobase.fm', '2025-10-15', parseFixture('wao/schedule-regular.html', '2025-10-15'));
+      expect(await db.getShows('technobase.fm', '2025-10-15', undefined, undefined, false, 'Charlie Beats')).toHaveLength(1);
+    });
+  });
+
+  describe('djs', () => {
+    it('should list the performers of stored shows as DJs of the station', async () => {
+      const djs = await db.getBotDJs('technobase.fm');
+
+      expect(djs.map(dj => [dj.djName, dj.onTeamPage, dj.inSchedule, dj.showCount])).toEqual([
+        ['Charlie Beats', false, true, 1],
+        ['DJ Alpha', false, true, 1],
+        ['DJ Bravo', false, true, 1],
+        ['DJ Delta', false, true, 1],
+        ['DJ Echo', false, true, 1]
+      ]);
+      expect(djs[0]).toMatchObject({ firstShowDay: '2025-10-15', lastShowDay: '2025-10-15' });
+    });
+
+    it('should link team listings and performers of all stations to one DJ', async () => {
+      await db.upsertBotDJ({ stationDomain: 'technobase.fm', djName: 'DJ Charlie Beats', realName: 'Carla Schmidt', isActive: true });
+      await db.upsertBotDJ({ stationDomain: 'housetime.fm', djName: 'Charlie  Beats', isActive: true });
+
+      const charlie = await db.findDJ('charlie beats');
+      expect(charlie).toMatchObject({
+        name: 'Charlie Beats', realName: 'Carla Schmidt', aliases: ['Charlie Beats'], stations: ['housetime.fm', 'technobase.fm']
+      });
+      const listings = (await db.getBotDJs()).filter(dj => dj.djId === charlie!.id);
+      expect(listings.map(dj => dj.stationDomain)).toEqual(['housetime.fm', 'technobase.fm']);
+      expect((await db.getDJShows(charlie!.id, '2025-10-15', '2025-10-15')).map(show => show.start)).toEqual(['18:00']);
+    });
+
+    it('should merge name variants with their shows and followers', async () => {
+      await db.upsertBotUser({ telegramId: 42, languageCode: 'de', isActive: true });
+      await db.upsertBotDJ({ stationDomain: 'housetime.fm', djName: 'A1pha', isActive: true });
+      await db.addBotFavoriteDJ(42, 'housetime.fm', 'A1pha');
+      const alpha = (await db.findDJ('DJ Alpha'))!;
+      const variant = (await db.findDJ('A1pha'))!;
+      expect(variant.id).not.toBe(alpha.id);
+
+      const merged = await db.mergeDJs(alpha.id, [variant.id]);
+
+      expect(merged.aliases).toEqual(['A1pha', 'DJ Alpha']);
+      expect(await db.getDJ(variant.id)).toBeNull();
+      expect((await db.getBotFavoriteDJs(42))[0].djId).toBe(alpha.id);
+      expect(await db.getShows('technobase.fm', '2025-10-15', undefined, undefined, false, 'a1pha')).toHaveLength(1);
+    });
+
+    it('should split aliases into a DJ of their own', async () => {
+      const alpha = (await db.findDJ('DJ Alpha'))!;
+
+      const split = await db.splitDJ(alpha.id, ['a1pha'], 'Alpha Twin');
+
+      expect(split).toMatchObject({ name: 'Alpha Twin', aliases: ['A1pha'], stations: ['housetime.fm'] });
+      expect((await db.getDJ(alpha.id))?.aliases).toEqual(['DJ Alpha']);
+      expect((await db.getBotFavoriteDJs(42))[0].djId).toBe(split.id);
+      expect(await db.getDJShows(split.id, '2025-10-15', '2025-10-15')).toHaveLength(0);
+      await expect(db.splitDJ(alpha.id, ['nobody'])).rejects.toThrow('None of the aliases belong to DJ');
+    });
+
+    it('should keep DJs who left the team page while they play shows', async () => {
+      await db.upsertBotDJ({ stationDomain: 'technobase.fm', djName: 'DJ Foxtrot', isActive: true });
+
+      const changes = await db.syncBotDJs('technobase.fm', [{ djName: 'DJ Alpha', isActive: true }]);
+
+      expect(changes).toMatchObject({ added: ['DJ Alpha'], updated: [], deactivated: ['DJ Foxtrot'] });
+      const djs = await db.getBotDJs('technobase.fm');
+      expect(djs.map(dj => dj.djName)).toEqual(['DJ Alpha', 'DJ Bravo', 'DJ Charlie Beats', 'DJ Delta', 'DJ Echo']);
+      expect(djs.find(dj => dj.djName === 'DJ Charlie Beats')).toMatchObject({ onTeamPage: false, inSchedule: true });
+    });
+
+    it('should refresh the roster when a listing has no DJ', async () => {
+      // As left behind by databases from before DJs were linked
+      const raw = new Database(join(config.dataDir, 'schedule.db'));
+      raw.prepare("UPDATE bot_djs SET dj_id = NULL WHERE station_domain = 'technobase.fm' AND dj_name = 'DJ Foxtrot'").run();
+      raw.close();
+
+      await saveScrapedShows('technobase.fm', '2025-10-15', parseFixture('wao/schedule-regular.html', '2025-10-15'));
+
+      const djs = await db.getBotDJs('technobase.fm', true);
+      expect(djs.find(dj => dj.djName === 'DJ Foxtrot')).toMatchObject({ inSchedule: false });
+      expect(djs.find(dj => dj.djName === 'DJ Echo')).toMatchObject({ inSchedule: true });
+    });
+  });
+
+  describe('stations', () => {
+    const station = { domain: 'housetime.fm', name: 'Housetime.FM', enabled: true, daysBack: 0, daysForward: 3 };
+
+    it('should keep runtime settings when a station is registered again', async () => {
+      await db.addStation(station);
+      await db.updateStation('housetime.fm', { ...station, name: 'Housetime', enabled: false, cronSchedule: '*/30 * * * *' });
+
+      await db.upsertStation({ domain: 'housetime.fm', name: 'Housetime.FM', enabled: true });
+
+      expect(await db.getStation('housetime.fm')).toMatchObject({
+        name: 'Housetime.FM', enabled: false, daysBack: 0, daysForward: 3, cronSchedule: '*/30 * * * *'
+      });
+    });
+
+    it('should remove a station with its shows and DJs', async () => {
+      await saveScrapedShows('housetime.fm', '2025-10-15', parseFixture('wao/schedule-regular.html', '2025-10-15'));
+      expect((await db.getBotDJs('housetime.fm')).length).toBeGreaterThan(0);
+
+      expect(await db.deleteStation('housetime.fm')).toBe(true);
+
+      expect(await db.getStation('housetime.fm')).toBeNull();
+      expect(await db.getShows('housetime.fm', '2025-10-15', undefined, undefined, true)).toHaveLength(0);
+      expect(await db.getBotDJs('housetime.fm', true)).toHaveLength(0);
+      expect(await db.deleteStation('housetime.fm')).toBe(false);
+      expect(await db.getShows('technobase.fm', '2025-10-15')).toHaveLength(5);
+    });
+  });
+
+  describe('schedule pages', () => {
+    it('should keep validators and refresh them on unchanged pages', async () => {
+      await db.saveSchedulePage({
+        stationDomain: 'technobase.fm',
+        day: '2025-10-15',
+        url: 'https://www.technobase.fm/sendeplan?day=2025-10-15%2000:00:00',
+        etag: '"v1"',
+        contentHash: 'abc'
+      });
+      await db.touchSchedulePage('technobase.fm', '2025-10-15', '"v2"');
+
+      const page = await db.getSchedulePage('technobase.fm', '2025-10-15');
+      expect(page).toMatchObject({ etag: '"v2"', contentHash: 'abc' });
+      expect(await db.getSchedulePage('technobase.fm', '2025-10-16')).toBeNull();
+    });
+  });
+
+  describe('snapshots', () => {
+    const snapshot = { stationDomain: 'technobase.fm', url: 'https://www.technobase.fm/sendeplan', httpStatus: 200 };
+
+    it('should store compressed pages and skip identical ones', async () => {
+      const html = loadFixture('wao/schedule-overnight.html');
+
+      const id = await db.saveSnapshot({ ...snapshot, day: '2025-10-16' }, html);
+      expect(await db.saveSnapshot({ ...snapshot, day: '2025-10-16' }, html)).toBe(id);
+      expect(await db.getSnapshotHtml(id)).toBe(html);
+
+      const stored = await db.getSnapshot(id);
+      expect(stored?.size).toBe(Buffer.byteLength(html));
+      expect(stored?.compressedSize).toBeLessThan(stored!.size);
+    });
+
+    it('should re-parse the latest snapshot of each day', async () => {
+      await db.saveSnapshot({ ...snapshot, day: '2025-10-17' }, loadFixture('wao/schedule-malformed.html'));
+      await db.saveSnapshot({ ...snapshot, day: '2025-10-17' }, loadFixture('wao/schedule-empty.html'));
+
+      const results = await new SnapshotService().reparse({ stationDomain: 'technobase.fm', from: '2025-10-16' });
+
+      expect(results.map(result => [result.day, result.itemsMatched, result.shows.length, result.applied])).toEqual([
+        ['2025-10-16', 4, 4, false],
+        ['2025-10-17', 0, 0, false]
+      ]);
+      expect(await db.getShows('technobase.fm', '2025-10-16')).toHaveLength(0);
+    });
+  });
+
+  describe('scrape runs', () => {
+    it('should total the items of a run', async () => {
+      const runId = await db.createScrapeRun('manual', ['technobase.fm'], ['2025-10-15', '2025-10-16']);
+      await db.startScrapeRun(runId);
+      const item = { runId, stationDomain: 'technobase.fm', warnings: [], scrapedAt: new Date().toISOString() };
+      await db.addScrapeRunItem({ ...item, day: '2025-10-15', success: true, showsFound: 5, changes: 0, unchanged: false });
+      await db.addScrapeRunItem({ ...item, day: '2025-10-16', success: false, showsFound: 0, changes: 0, unchanged: false, error: 'HTTP 503' });
+      await db.finishScrapeRun(runId, 'completed');
+
+      const run = await db.getScrapeRun(runId);
+      expect(run).toMatchObject({ status: 'completed', itemsTotal: 2, itemsFailed: 1, showsFound: 5 });
+      expect(run?.items?.map(runItem => runItem.error)).toEqual([undefined, 'HTTP 503']);
+      expect(await db.getScrapeRuns({ status: 'completed' })).toHaveLength(1);
+    });
+
+    it('should fail runs interrupted by a restart', async () => {
+      const runId = await db.createScrapeRun('cron', ['technobase.fm'], ['2025-10-15']);
+
+      expect(await db.failInterruptedScrapeRuns()).toBe(1);
+      expect((await db.getScrapeRun(runId))?.error).toBe('Interrupted by restart');
+    });
+  });
+  describe('queryShows', () => {
+    const day = '2025-10-20';
+
+    beforeAll(async () => {
+      await db.upsertStation({ domain: 'housetime.fm', name: 'HouseTime.FM', enabled: true });
+      for (const station of ['technobase.fm', 'housetime.fm']) {
+        await saveScrapedShows(station, day, parseFixture('wao/schedule-regular.html', day));
+      }
+    });
+
+    it('should query several stations or all of them at once', async () => {
+      const { shows, nextCursor } = await db.queryShows({ from: day, to: day });
+
+      expect(shows).toHaveLength(10);
+      expect(nextCursor).toBeUndefined();
+      expect(shows.slice(0, 2).map(show => [show.stationDomain, show.dj]).sort()).toEqual([
+        ['housetime.fm', 'DJ Alpha'],
+        ['technobase.fm', 'DJ Alpha']
+      ]);
+      expect((await db.queryShows({ stations: ['housetime.fm'], from: day, to: day })).shows).toHaveLength(5);
+    });
+
+    it('should filter by style and start time', async () => {
+      const techno = await db.queryShows({ from: day, to: day, styles: ['TECHNO'], sort: 'station' });
+      expect(techno.shows.map(show => [show.stationDomain, show.dj])).toEqual([
+        ['housetime.fm', 'DJ Alpha'],
+        ['housetime.fm', 'DJ Delta'],
+        ['technobase.fm', 'DJ Alpha'],
+        ['technobase.fm', 'DJ Delta']
+      ]);
+
+      const evening = await db.queryShows({ stations: ['technobase.fm'], from: day, to: day, timeFrom: '14:00', timeTo: '20:00' });
+      expect(evening.shows.map(show => show.dj)).toEqual(['DJ Bravo', 'Charlie Beats']);
+
+      // Past midnight
+      const night = await db.queryShows({ stations: ['technobase.fm'], from: day, to: day, timeFrom: '20:00', timeTo: '09:00' });
+      expect(night.shows.map(show => show.dj)).toEqual(['DJ Alpha', 'DJ Delta', 'DJ Echo']);
+    });
+
+    it('should page through the shows with a cursor', async () => {
+      const query = { from: day, to: day, sort: 'dj' as const, order: 'desc' as const };
+      const { shows: all } = await db.queryShows(query);
+
+      const paged = [];
+      let page = await db.queryShows({ ...query, limit: 3 });
+      paged.push(...page.shows);
+      while (page.nextCursor) {
+        page = await db.queryShows({ ...query, limit: 3, after: page.nextCursor });
+        paged.push(...page.shows);
+      }
+
+      expect(paged.map(show => show.id)).toEqual(all.map(show => show.id));
+      expect(all.map(show => show.dj).filter((dj, index, djs) => djs.indexOf(dj) === index)).toEqual([
+        'DJ Echo', 'DJ Delta', 'DJ Bravo', 'DJ Alpha', 'Charlie Beats'
+      ]);
+    });
+  });
+  describe('change history', () => {
+    const show = (day: string, startAt: string): Show => ({
+      day, startAt, endAt: startAt.replace('T21:', 'T23:'), start: '23:00', end: '01:00',
+      dj: 'DJ Echo', title: 'Late Night', style: 'Hard Techno', stationDomain: 'technobase.fm'
+    });
+
+    it('should keep the history of a cancelled show that is scheduled again', async () => {
+      // Cancelled on the first day
+      await db.reconcileShows('technobase.fm', '2025-11-01', [show('2025-11-01', '2025-11-01T21:00:00.000Z')]);
+      await db.upsertDay({ stationDomain: 'technobase.fm', day: '2025-11-01', scrapedAt: new Date() });
+      await db.reconcileShows('technobase.fm', '2025-11-01', []);
+
+      // Listed on the next day's page, then moved into the cancelled slot
+      await db.reconcileShows('technobase.fm', '2025-11-02', [show('2025-11-02', '2025-11-02T21:00:00.000Z')]);
+      await db.upsertDay({ stationDomain: 'technobase.fm', day: '2025-11-02', scrapedAt: new Date() });
+      const [moved] = await db.reconcileShows('technobase.fm', '2025-11-02', [show('2025-11-02', '2025-11-01T21:00:00.000Z')]);
+
+      const history = (await db.getShowChanges({ stationDomain: 'technobase.fm' }))
+        .filter(change => change.showId === moved.showId);
+      expect(history.map(change => [change.day, change.changeType])).toEqual([
+        ['2025-11-01', 'cancelled'],
+        ['2025-11-02', 'changed']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { db } from '../database';
+import { DJScraperService } from '../services/dj-scraper';
+import { stationRegistry } from '../stations';
+import { FakeStation, loadFixture } from './helpers/fake-station';
+
+describe('DJScraperService', () => {
+  let station: FakeStation;
+  const service = new DJScraperService();
+
+  beforeAll(async () => {
+    station = await FakeStation.start('technobase.fm');
+    stationRegistry.register(station.adapter);
+  });
+
+  afterAll(async () => {
+    await station.close();
+  });
+
+  it('should parse the team sections of the team page', async () => {
+    station.team = loadFixture('wao/team.html');
+
+    const { djs } = await service.scrapeStation('technobase.fm', false);
+
+    const resident = { role: 'Resident DJs', isActive: true };
+    expect(djs).toEqual([
+      {
+        ...resident, djName: 'DJ Alpha', realName: 'Andreas Meier',
+        profileUrl: `${station.baseUrl}/dj/alpha`, imageUrl: `${station.baseUrl}/media/team/alpha.jpg`
+      },
+      { ...resident, djName: 'DJ Bravo', realName: undefined, profileUrl: undefined, imageUrl: undefined },
+      { ...resident, djName: 'Charlie Beats', realName: 'Carla Schmidt', profileUrl: undefined, imageUrl: undefined },
+      { ...resident, djName: 'DJ Delta', realName: undefined, profileUrl: `${station.baseUrl}/dj/delta`, imageUrl: undefined },
+      { role: 'Moderatoren', isActive: true, djName: 'Moderator Mike', realName: undefined, profileUrl: undefined, imageUrl: undefined }
+    ]);
+    expect(station.requests).toContain('/team');
+  });
+
+  it('should only read headings naming a role on pages without a team container', async () => {
+    station.team = `<html><body>
+      <h3>Resident DJs</h3><ul><li>DJ Alpha</li></ul>
+      <h3>Neuigkeiten</h3><ul><li>Neuer Sendeplan online</li></ul>
+    </body></html>`;
+
+    const { djs } = await service.scrapeStation('technobase.fm', false);
+
+    expect(djs.map(dj => [dj.role, dj.djName])).toEqual([['Resident DJs', 'DJ Alpha']]);
+  });
+
+  it('should not store anything on a dry run', async () => {
+    station.team = loadFixture('wao/team.html');
+
+    const result = await service.scrapeStation('technobase.fm', false);
+
+    expect(result).toMatchObject({ applied: false, added: ['DJ Alpha', 'DJ Bravo', 'Charlie Beats', 'DJ Delta', 'Moderator Mike'] });
+    expect(await db.getBotDJs('technobase.fm')).toHaveLength(0);
+  });
+
+  it('should store the scraped DJs', async () => {
+    station.team = loadFixture('wao/team.html');
+    await service.scrapeStation('technobase.fm');
+
+    const stored = await service.getAvailableDJs('technobase.fm');
+    expect(stored.map(dj => dj.djName).sort()).toEqual(['Charlie Beats', 'DJ Alpha', 'DJ Bravo', 'DJ Delta', 'Moderator Mike']);
+    expect((await service.searchDJs('carla'))[0].djName).toBe('Charlie Beats');
+
+    const alpha = stored.find(dj => dj.djName === 'DJ Alpha')!;
+    expect(alpha).toMatchObject({ role: 'Resident DJs', profileUrl: `${station.baseUrl}/dj/alpha` });
+    expect(alpha.firstSeenAt).toEqual(alpha.lastSeenAt);
+  });
+
+  it('should deactivate DJs who left and bring them back when listed again', async () => {
+    station.team = loadFixture('wao/team.html').replace('<li>DJ Bravo</li>', '').replace('DJ Alpha ###', 'DJ  ALPHA ###');
+
+    const left = await service.scrapeStation('technobase.fm');
+
+    expect(left).toMatchObject({ added: [], reactivated: [], updated: ['DJ ALPHA'], deactivated: ['DJ Bravo'] });
+    expect((await service.getAvailableDJs('technobase.fm')).map(dj => dj.djName)).not.toContain('DJ Bravo');
+    expect(await db.getBotDJs('technobase.fm', true)).toHaveLength(5);
+
+    station.team = loadFixture('wao/team.html');
+    const back = await service.scrapeStation('technobase.fm');
+
+    expect(back).toMatchObject({ reactivated: ['DJ Bravo'], updated: ['DJ Alpha'], deactivated: [] });
+    expect(await service.getAvailableDJs('technobase.fm')).toHaveLength(5);
+  });
+
+  it('should keep the DJ list when the team page has no DJs', async () => {
+    station.team = '<html><body><nav><ul><li>Sendeplan</li><li>Team</li></ul></nav></body></html>';
+
+    await expect(service.scrapeStation('technobase.fm')).rejects.toThrow('No DJs found');
+    expect(await db.getBotDJs('technobase.fm')).toHaveLength(5);
+  });
+
+  it('should fail when the team page is missing', async () => {
+    station.team = undefined;
+
+    await expect(service.scrapeStation('technobase.fm')).rejects.toThrow('HTTP 404');
+    expect(await db.getBotDJs('technobase.fm')).toHaveLength(5);
+  });
+});
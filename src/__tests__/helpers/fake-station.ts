@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { WaoStationAdapter } from '../../stations';
+
+const fixturesDir = join(__dirname, '..', 'fixtures');
+
+/**
+ * Reads a recorded page, e.g. `loadFixture('wao/schedule-regular.html')`
+ */
+export function loadFixture(name: string): string {
+  return readFileSync(join(fixturesDir, name), 'utf8');
+}
+
+/**
+ * Local stand-in for a WAO station website. Serves `/sendeplan?day=...` and
+ * `/team` like the real site, with ETags so conditional requests work.
+ * Days without a page answer 404.
+ */
+export class FakeStation {
+  readonly domain: string;
+  readonly adapter: WaoStationAdapter;
+  // Schedule pages by day (YYYY-MM-DD)
+  readonly schedule: Map<string, string> = new Map();
+  team?: string;
+  // Status code for the next requests instead of a page, e.g. 503
+  failWith?: number;
+  // Request paths in order of arrival
+  readonly requests: string[] = [];
+
+  private constructor(private server: Server, domain: string, baseUrl: string) {
+    this.domain = domain;
+    this.adapter = new WaoStationAdapter(domain, domain, undefined, baseUrl);
+  }
+
+  static async start(domain = 'technobase.fm'): Promise<FakeStation> {
+    let station: FakeStation | undefined;
+    const server = createServer((req, res) => station!.handle(req, res));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    station = new FakeStation(server, domain, `http://127.0.0.1:${port}`);
+    return station;
+  }
+
+  get baseUrl(): string {
+    return this.adapter.baseUrl;
+  }
+
+  setScheduleFixture(day: string, fixture: string): void {
+    this.schedule.set(day, loadFixture(fixture));
+  }
+
+  async close(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    this.requests.push(req.url || '/');
+
+    if (this.failWith) {
+      res.statusCode = this.failWith;
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', this.baseUrl);
+    let body: string | undefined;
+    if (url.pathname === '/sendeplan') {
+      // The site expects "YYYY-MM-DD 00:00:00"
+      const day = (url.searchParams.get('day') || '').split(' ')[0];
+      body = this.schedule.get(day);
+    } else if (url.pathname === '/team') {
+      body = this.team;
+    }
+
+    if (body === undefined) {
+      res.statusCode = 404;
+      res.end('<html><body>Seite nicht gefunden</body></html>');
+      return;
+    }
+
+    const etag = `"${createHash('sha1').update(body).digest('hex').slice(0, 16)}"`;
+    if (req.headers['if-none-match'] === etag) {
+      res.statusCode = 304;
+      res.end();
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('ETag', etag);
+    res.end(body);
+  }
+}
@@ -0,0 +1,95 @@
+import { createServer, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient, HttpStatusError, TokenBucket } from '../utils/http-client';
+
+describe('HttpClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  let responses: ((res: ServerResponse) => void)[];
+  let requestTimes: number[];
+
+  beforeAll(async () => {
+    server = createServer((_, res) => {
+      requestTimes.push(Date.now());
+      const respond = responses.shift() || (r => r.end('<html>ok</html>'));
+      respond(res);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    responses = [];
+    requestTimes = [];
+  });
+
+  const fastClient = (options = {}) => new HttpClient({
+    baseDelayMs: 10,
+    maxDelayMs: 100,
+    requestsPerMinute: 60000,
+    burst: 10,
+    ...options
+  });
+
+  it('should retry 5xx responses and return the eventual page', async () => {
+    responses = [
+      res => { res.statusCode = 503; res.end(); },
+      res => { res.statusCode = 502; res.end(); },
+      res => res.end('<html>schedule</html>')
+    ];
+
+    const response = await fastClient().fetchHtml(`${baseUrl}/sendeplan`);
+
+    expect(response.status).toBe(200);
+    expect(response.html).toBe('<html>schedule</html>');
+    expect(response.attempts).toBe(3);
+  });
+
+  it('should not retry client errors', async () => {
+    responses = [res => { res.statusCode = 404; res.end(); }];
+
+    await expect(fastClient().fetchHtml(`${baseUrl}/missing`)).rejects.toBeInstanceOf(HttpStatusError);
+    expect(requestTimes).toHaveLength(1);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    responses = Array(5).fill((res: ServerResponse) => { res.statusCode = 500; res.end(); });
+
+    await expect(fastClient({ maxRetries: 2 }).fetchHtml(`${baseUrl}/broken`)).rejects.toThrow('HTTP 500');
+    expect(requestTimes).toHaveLength(3);
+  });
+
+  it('should honor Retry-After on 429 responses', async () => {
+    responses = [res => { res.statusCode = 429; res.setHeader('Retry-After', '1'); res.end(); }];
+
+    const client = fastClient({ maxDelayMs: 5000 });
+    await client.fetchHtml(`${baseUrl}/limited`);
+
+    expect(requestTimes).toHaveLength(2);
+    expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it('should time out slow responses', async () => {
+    responses = Array(2).fill((res: ServerResponse) => setTimeout(() => res.end('late'), 500));
+
+    await expect(fastClient({ timeoutMs: 50, maxRetries: 1 }).fetchHtml(`${baseUrl}/slow`)).rejects.toThrow('timed out');
+  });
+});
+
+describe('TokenBucket', () => {
+  it('should space requests once the burst is used up', async () => {
+    const bucket = new TokenBucket(2, 1 / 100);
+    const startedAt = Date.now();
+
+    await bucket.take();
+    await bucket.take();
+    expect(Date.now() - startedAt).toBeLessThan(50);
+
+    await bucket.take();
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+  });
+});
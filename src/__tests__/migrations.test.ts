@@ -0,0 +1,76 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { db } from '../database';
+import { getMigrationStatus, latestVersion, runMigrations } from '../database/migrations';
+
+describe('migrations', () => {
+  let dir: string;
+  let legacy: Database.Database;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wao-base-migrations-'));
+
+    // Schema and rows as written before versioned migrations
+    legacy = new Database(join(dir, 'schedule.db'));
+    legacy.exec(`
+      CREATE TABLE stations (
+        domain TEXT PRIMARY KEY, name TEXT, enabled BOOLEAN DEFAULT 1, last_scraped DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE shows (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, day TEXT NOT NULL, station_domain TEXT NOT NULL,
+        dj TEXT NOT NULL, title TEXT NOT NULL, start_time TEXT NOT NULL, end_time TEXT NOT NULL,
+        style TEXT NOT NULL, created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(day, station_domain, dj, title, start_time, end_time)
+      );
+      CREATE TABLE bot_user_preferences (
+        telegram_id INTEGER PRIMARY KEY, notification_hours_before INTEGER, notification_times TEXT DEFAULT '2h',
+        timezone TEXT DEFAULT 'Europe/Berlin', created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO stations (domain, name) VALUES ('technobase.fm', 'Technobase.FM');
+      INSERT INTO shows (day, station_domain, dj, title, start_time, end_time, style)
+        VALUES ('2025-10-15', 'technobase.fm', 'DJ Alpha', 'Warm Up', '22:00', '00:00', 'Techno');
+      INSERT INTO bot_user_preferences (telegram_id, notification_hours_before) VALUES (1, 4);
+      INSERT INTO bot_user_preferences (telegram_id) VALUES (2);
+    `);
+  });
+
+  afterAll(() => {
+    legacy.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should upgrade a database from before versioned migrations', () => {
+    const result = runMigrations(legacy, join(dir, 'backups'));
+
+    expect(result).toMatchObject({ fromVersion: 0, toVersion: latestVersion() });
+    expect(result.applied.map(migration => migration.version)).toEqual([1, 2, 3]);
+    expect(existsSync(result.backupPath!)).toBe(true);
+
+    const show = legacy.prepare('SELECT start_at, end_at, status FROM shows').get() as any;
+    expect(show).toEqual({ start_at: '2025-10-15T20:00:00.000Z', end_at: '2025-10-15T22:00:00.000Z', status: 'scheduled' });
+
+    const preferences = legacy.prepare('SELECT * FROM bot_user_preferences ORDER BY telegram_id').all() as any[];
+    expect(preferences.map(row => row.notification_times)).toEqual(['["4h"]', '["2h"]']);
+    expect(preferences[0]).not.toHaveProperty('notification_hours_before');
+  });
+
+  it('should do nothing when the database is up to date', () => {
+    const result = runMigrations(legacy, join(dir, 'backups'));
+
+    expect(result.applied).toHaveLength(0);
+    expect(result.backupPath).toBeUndefined();
+    expect(getMigrationStatus(legacy)).toMatchObject({ currentVersion: latestVersion(), pending: [] });
+  });
+
+  it('should create new databases without a backup', async () => {
+    const status = await db.getMigrationStatus();
+
+    expect(status.currentVersion).toBe(latestVersion());
+    expect(status.lastMigration).toMatchObject({ fromVersion: 0, toVersion: latestVersion() });
+    expect(status.lastMigration?.backupPath).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import { evaluateParserHealth } from '../scraper/parser-health';
+import { WaoStationAdapter } from '../stations';
+
+describe('evaluateParserHealth', () => {
+  it('should report a healthy page', () => {
+    const health = evaluateParserHealth({ containerFound: true, itemsMatched: 12, showsParsed: 12, missingFields: {}, trailingAverage: 11.5 });
+
+    expect(health.status).toBe('ok');
+    expect(health.reasons).toHaveLength(0);
+  });
+
+  it('should flag pages without a schedule', () => {
+    const health = evaluateParserHealth({ containerFound: false, itemsMatched: 0, showsParsed: 0, missingFields: {}, trailingAverage: 12 });
+
+    expect(health.status).toBe('degraded');
+    expect(health.reasons).toEqual(['No schedule found in the page']);
+  });
+
+  it('should only flag an empty schedule when the station usually has shows', () => {
+    const empty = { containerFound: true, itemsMatched: 0, showsParsed: 0, missingFields: {} };
+
+    expect(evaluateParserHealth(empty).status).toBe('ok');
+    expect(evaluateParserHealth({ ...empty, trailingAverage: 12 }).reasons).toEqual(['Found 0 shows, trailing average is 12.0']);
+  });
+
+  it('should flag items that no longer parse', () => {
+    const health = evaluateParserHealth({ containerFound: true, itemsMatched: 12, showsParsed: 3, missingFields: { dj: 9 } });
+
+    expect(health.status).toBe('degraded');
+    expect(health.reasons[0]).toBe('Only 3 of 12 schedule items could be parsed');
+  });
+
+  it('should flag optional fields missing in most items', () => {
+    const health = evaluateParserHealth({ containerFound: true, itemsMatched: 10, showsParsed: 10, missingFields: { end: 8, style: 1 } });
+
+    expect(health.status).toBe('degraded');
+    expect(health.reasons).toEqual(['Field "end" missing in 8 of 10 schedule items']);
+  });
+
+  it('should flag a sudden drop against the trailing average', () => {
+    const health = evaluateParserHealth({ containerFound: true, itemsMatched: 4, showsParsed: 4, missingFields: {}, trailingAverage: 12 });
+
+    expect(health.status).toBe('degraded');
+    expect(health.reasons[0]).toBe('Found 4 shows, trailing average is 12.0');
+  });
+});
+
+describe('WaoStationAdapter parser signals', () => {
+  const adapter = new WaoStationAdapter('technobase.fm');
+  const item = (inner: string) => `
+    <div class="item" itemtype="http://schema.org/BroadcastEvent">
+      <div class="time-djname"><h2 class="title">${inner}</h2></div>
+      <div class="description"><div class="show-info">
+        <div class="dj-row"><span itemprop="dj">DJ A</span></div>
+        <div class="title-row"><span itemprop="name">Show A</span></div>
+      </div></div>
+    </div>`;
+
+  it('should count matched items and missing fields', () => {
+    const html = `<div class="content-list schedule-list">
+      ${item('<span itemprop="startDate">20:00</span>')}
+      ${item('<span class="renamed">22:00</span>')}
+    </div>`;
+
+    const result = adapter.parseSchedule(html);
+
+    expect(result.itemsMatched).toBe(2);
+    expect(result.containerFound).toBe(true);
+    expect(result.shows).toHaveLength(1);
+    expect(result.missingFields).toEqual({ start: 1, end: 1, style: 1 });
+  });
+});
@@ -0,0 +1,39 @@
+import { normalizePerformerName, splitPerformers } from '../utils/performers';
+
+describe('splitPerformers', () => {
+  it('should keep single DJs as they are', () => {
+    expect(splitPerformers('DJ Alpha')).toEqual(['DJ Alpha']);
+    expect(splitPerformers('  Charlie   Beats ')).toEqual(['Charlie Beats']);
+  });
+
+  it('should split B2B sets and guest lineups', () => {
+    expect(splitPerformers('DJ Alpha & DJ Bravo')).toEqual(['DJ Alpha', 'DJ Bravo']);
+    expect(splitPerformers('DJ Alpha b2b DJ Bravo')).toEqual(['DJ Alpha', 'DJ Bravo']);
+    expect(splitPerformers('DJ Alpha B2B DJ Bravo b3b Charlie Beats')).toEqual(['DJ Alpha', 'DJ Bravo', 'Charlie Beats']);
+    expect(splitPerformers('DJ Alpha vs. DJ Bravo')).toEqual(['DJ Alpha', 'DJ Bravo']);
+    expect(splitPerformers('DJ Alpha vs DJ Bravo')).toEqual(['DJ Alpha', 'DJ Bravo']);
+    expect(splitPerformers('DJ Alpha feat. MC Bravo')).toEqual(['DJ Alpha', 'MC Bravo']);
+    expect(splitPerformers('DJ Alpha ft. MC Bravo')).toEqual(['DJ Alpha', 'MC Bravo']);
+    expect(splitPerformers('DJ Alpha x DJ Bravo')).toEqual(['DJ Alpha', 'DJ Bravo']);
+    expect(splitPerformers('DJ Nova, DJ Orbit')).toEqual(['DJ Nova', 'DJ Orbit']);
+  });
+
+  it('should not split inside names', () => {
+    expect(splitPerformers('Max Vasquez')).toEqual(['Max Vasquez']);
+    expect(splitPerformers('DJ X-Ray')).toEqual(['DJ X-Ray']);
+    expect(splitPerformers('Featherweight')).toEqual(['Featherweight']);
+  });
+
+  it('should drop duplicates and empty parts', () => {
+    expect(splitPerformers('DJ Alpha & Alpha & ')).toEqual(['DJ Alpha']);
+    expect(splitPerformers('')).toEqual([]);
+  });
+});
+
+describe('normalizePerformerName', () => {
+  it('should ignore case, whitespace and the DJ prefix', () => {
+    expect(normalizePerformerName(' DJ  Alpha ')).toBe('alpha');
+    expect(normalizePerformerName('alpha')).toBe('alpha');
+    expect(normalizePerformerName('Charlie Beats')).toBe('charlie beats');
+  });
+});
@@ -0,0 +1,77 @@
+import { diffShows } from '../database/reconcile';
+import { Show } from '../types';
+
+const show = (id: number | undefined, start: string, dj: string, title: string, overrides: Partial<Show> = {}): Show => ({
+  id,
+  day: '2025-10-15',
+  stationDomain: 'technobase.fm',
+  dj,
+  title,
+  start,
+  end: '23:59',
+  startAt: `2025-10-15T${start}:00.000Z`,
+  endAt: '2025-10-15T23:59:00.000Z',
+  style: 'Techno',
+  status: 'scheduled',
+  ...overrides
+});
+
+describe('diffShows', () => {
+  it('should keep identical shows unchanged', () => {
+    const diff = diffShows([show(1, '20:00', 'DJ A', 'Show A')], [show(undefined, '20:00', 'DJ A', 'Show A')]);
+
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.changed).toHaveLength(0);
+    expect(diff.cancelled).toHaveLength(0);
+  });
+
+  it('should detect a show moved by an hour', () => {
+    const diff = diffShows([show(1, '20:00', 'DJ A', 'Show A')], [show(undefined, '21:00', 'DJ A', 'Show A')]);
+
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].before.id).toBe(1);
+    expect(diff.changed[0].changedFields).toEqual(['start', 'startAt']);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.cancelled).toHaveLength(0);
+  });
+
+  it('should detect a DJ swap in the same slot', () => {
+    const diff = diffShows([show(1, '20:00', 'DJ A', 'Show A')], [show(undefined, '20:00', 'DJ B', 'Show B')]);
+
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].changedFields).toEqual(['dj', 'title']);
+  });
+
+  it('should report new and removed shows', () => {
+    const diff = diffShows(
+      [show(1, '18:00', 'DJ A', 'Show A'), show(2, '20:00', 'DJ B', 'Show B')],
+      [show(undefined, '18:00', 'DJ A', 'Show A'), show(undefined, '22:00', 'DJ C', 'Show C')]
+    );
+
+    expect(diff.added.map(s => s.dj)).toEqual(['DJ C']);
+    expect(diff.cancelled.map(s => s.id)).toEqual([2]);
+  });
+
+  it('should restore a cancelled show that reappears', () => {
+    const diff = diffShows(
+      [show(1, '20:00', 'DJ A', 'Show A', { status: 'cancelled' })],
+      [show(undefined, '20:00', 'DJ A', 'Show A')]
+    );
+
+    expect(diff.restored).toHaveLength(1);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.cancelled).toHaveLength(0);
+  });
+
+  it('should refresh metadata without reporting a change', () => {
+    const diff = diffShows(
+      [show(1, '20:00', 'DJ A', 'Show A', { description: 'Old text' })],
+      [show(undefined, '20:00', 'DJ A', 'Show A', { description: 'New text', imageUrl: 'https://www.technobase.fm/a.jpg' })]
+    );
+
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.changed).toHaveLength(0);
+    expect(diff.refreshed.map(update => update.after.description)).toEqual(['New text']);
+  });
+});
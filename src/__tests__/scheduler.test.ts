@@ -0,0 +1,169 @@
+import { db } from '../database';
+import { SchedulerService } from '../services/scheduler';
+import { ParserHealthService } from '../services/parser-health';
+import { stationRegistry } from '../stations';
+import { ScrapeJob } from '../types';
+import { FakeStation, loadFixture } from './helpers/fake-station';
+
+describe('SchedulerService', () => {
+  let station: FakeStation;
+  let scheduler: SchedulerService;
+
+  // Jobs run in the background; poll until the worker is done with it
+  const runScrape = async (dates?: string[], force = false): Promise<ScrapeJob> => {
+    const { id } = await scheduler.runManualScrape('technobase.fm', dates, 'manual', force);
+    for (let i = 0; i < 200; i++) {
+      const job = await scheduler.getJob(id);
+      if (job?.finishedAt) return job;
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+    throw new Error(`Scrape job ${id} did not finish`);
+  };
+
+  beforeAll(async () => {
+    station = await FakeStation.start('technobase.fm');
+    station.setScheduleFixture('2025-10-15', 'wao/schedule-regular.html');
+    station.setScheduleFixture('2025-10-16', 'wao/schedule-overnight.html');
+
+    // The scraper manager resolves its adapters on construction
+    stationRegistry.register(station.adapter);
+    await db.upsertStation({ domain: 'technobase.fm', name: 'Technobase.FM', enabled: true });
+    scheduler = new SchedulerService(new ParserHealthService(null));
+  });
+
+  afterAll(async () => {
+    scheduler.stop();
+    await station.close();
+  });
+
+  it('should store the shows of every scraped day', async () => {
+    const job = await runScrape(['2025-10-15', '2025-10-16']);
+
+    expect(job.status).toBe('completed');
+    expect(job.progress.items.map(item => [item.date, item.status, item.showsFound])).toEqual([
+      ['2025-10-15', 'done', 5],
+      ['2025-10-16', 'done', 4]
+    ]);
+
+    const shows = await db.getShows('technobase.fm', undefined, '2025-10-15', '2025-10-16');
+    expect(shows).toHaveLength(8);
+    // The overnight show is listed on both pages but stored once, on the day it starts
+    expect(shows.filter(show => show.title === 'Late Night').map(show => show.day)).toEqual(['2025-10-15']);
+
+    const run = await db.getScrapeRun(job.id);
+    expect(run?.status).toBe('completed');
+    expect(run?.items?.every(item => item.parserStatus === 'ok')).toBe(true);
+    expect(await db.getSnapshots({ stationDomain: 'technobase.fm' })).toHaveLength(2);
+  });
+
+  it('should skip pages that did not change', async () => {
+    const requestsBefore = station.requests.length;
+    const job = await runScrape(['2025-10-15', '2025-10-16']);
+
+    expect(job.progress.unchanged).toBe(2);
+    expect(job.progress.items.map(item => item.status)).toEqual(['unchanged', 'unchanged']);
+    expect(station.requests.length).toBe(requestsBefore + 2);
+    expect(await db.getSnapshots({ stationDomain: 'technobase.fm' })).toHaveLength(2);
+  });
+
+  it('should accept a day without shows', async () => {
+    station.setScheduleFixture('2025-10-17', 'wao/schedule-empty.html');
+
+    const job = await runScrape(['2025-10-17']);
+
+    expect(job.progress.items[0]).toMatchObject({ status: 'done', showsFound: 0 });
+    const [health] = await db.getParserHealth('technobase.fm');
+    expect(health.status).toBe('ok');
+  });
+
+  it('should record changes of a re-published schedule', async () => {
+    station.schedule.set('2025-10-15', loadFixture('wao/schedule-regular.html').replace(/DJ Delta/g, 'DJ Kilo'));
+
+    const job = await runScrape(['2025-10-15']);
+
+    expect(job.progress.items[0]).toMatchObject({ status: 'done', showsFound: 5, changes: 1 });
+    const [change] = await db.getShowChanges({ stationDomain: 'technobase.fm', changeType: 'changed' });
+    expect(change.changedFields).toEqual(['dj']);
+    expect(change.oldValues?.dj).toBe('DJ Delta');
+    expect(change.newValues?.dj).toBe('DJ Kilo');
+  });
+
+  it('should keep the shows of a day whose page comes back empty', async () => {
+    station.setScheduleFixture('2025-10-15', 'wao/schedule-empty.html');
+
+    const job = await runScrape(['2025-10-15']);
+
+    expect(job.progress.items[0]).toMatchObject({ status: 'done' });
+    expect(await db.getShows('technobase.fm', '2025-10-15')).toHaveLength(5);
+
+    // The station usually has shows, so an empty day is suspicious
+    const [health] = await db.getParserHealth('technobase.fm');
+    expect(health.status).toBe('degraded');
+    expect(health.reasons[0]).toMatch(/^2025-10-15: Found 0 shows, trailing average is/);
+  });
+
+  it('should flag a page without a schedule', async () => {
+    station.schedule.set('2025-10-15', loadFixture('wao/schedule-empty.html').replace('content-list schedule-list', 'content-list'));
+
+    await runScrape(['2025-10-15']);
+
+    const [health] = await db.getParserHealth('technobase.fm');
+    expect(health.status).toBe('degraded');
+    expect(health.reasons).toEqual(['2025-10-15: No schedule found in the page']);
+    expect(await db.getShows('technobase.fm', '2025-10-15')).toHaveLength(5);
+  });
+
+  it('should not cancel the shows a degraded page fails to parse', async () => {
+    station.schedule.set('2025-10-15', loadFixture('wao/schedule-regular.html')
+      .replace(/itemprop="startDate">(14|18|20):00/g, 'class="start">$1:00'));
+
+    const job = await runScrape(['2025-10-15']);
+
+    expect(job.progress.items[0]).toMatchObject({ status: 'done', showsFound: 2, changes: 0 });
+    const [health] = await db.getParserHealth('technobase.fm');
+    expect(health.reasons).toContain('2025-10-15: Only 2 of 5 schedule items could be parsed');
+    expect(await db.getShows('technobase.fm', '2025-10-15')).toHaveLength(5);
+    expect(await db.getShowChanges({ stationDomain: 'technobase.fm', changeType: 'cancelled' })).toHaveLength(0);
+  });
+
+  it('should re-process unchanged pages when forced', async () => {
+    station.setScheduleFixture('2025-10-15', 'wao/schedule-regular.html');
+    await runScrape(['2025-10-15']);
+
+    const job = await runScrape(['2025-10-15'], true);
+
+    expect(job.progress.items[0]).toMatchObject({ status: 'done', showsFound: 5, changes: 0 });
+    const [health] = await db.getParserHealth('technobase.fm');
+    expect(health.status).toBe('ok');
+  });
+
+  it('should mark days that fail to load', async () => {
+    const job = await runScrape(['2025-10-19']);
+
+    expect(job.status).toBe('completed');
+    expect(job.progress.failed).toBe(1);
+    expect(job.progress.items[0].error).toContain('HTTP 404');
+  });
+
+  it('should scrape the horizon configured for the station', async () => {
+    await db.updateStation('technobase.fm', { name: 'Technobase.FM', enabled: true, daysBack: 0, daysForward: 2 });
+
+    const job = await runScrape();
+
+    const today = new Date();
+    const expected = [0, 1, 2].map(offset => {
+      const date = new Date(today);
+      date.setDate(today.getDate() + offset);
+      return date.toISOString().split('T')[0];
+    });
+    expect(job.dates).toEqual(expected);
+    expect(job.progress.total).toBe(3);
+  });
+
+  it('should not schedule disabled stations', async () => {
+    await db.updateStation('technobase.fm', { name: 'Technobase.FM', enabled: false, daysBack: 1, daysForward: 5 });
+
+    expect(await scheduler.runScheduledScrape()).toBeNull();
+    expect((await db.getStation('technobase.fm'))?.enabled).toBe(false);
+  });
+});
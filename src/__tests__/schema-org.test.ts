@@ -0,0 +1,110 @@
+import { ScheduleScraper } from '../scraper';
+import { parseBroadcastEvents, WaoStationAdapter } from '../stations';
+import { ScrapedShow } from '../types';
+import { loadFixture } from './helpers/fake-station';
+
+describe('parseBroadcastEvents', () => {
+  it('should read microdata regardless of the page layout', () => {
+    const result = parseBroadcastEvents(loadFixture('schema-org/schedule-microdata.html'), 'Europe/Berlin');
+
+    expect(result.itemsMatched).toBe(3);
+    expect(result.shows).toMatchObject([
+      {
+        dj: 'Mara Lenz', title: 'Sunset Grooves', start: '18:00', end: '20:00', style: 'Deep House',
+        startAt: '2025-10-15T16:00:00.000Z', endAt: '2025-10-15T18:00:00.000Z'
+      },
+      {
+        dj: 'Kai Brandt', title: 'Warehouse', start: '20:00', end: '23:00', style: 'Techno',
+        startAt: '2025-10-15T18:00:00.000Z', endAt: '2025-10-15T21:00:00.000Z'
+      },
+      { dj: 'Autopilot', title: 'Night Drive', start: '23:00', end: '01:00', style: 'Unknown' }
+    ]);
+    expect(result.missingFields).toEqual({ end: 1, style: 1 });
+  });
+
+  it('should read descriptions, images and links from microdata', () => {
+    const result = parseBroadcastEvents(loadFixture('schema-org/schedule-microdata.html'), 'Europe/Berlin', 'https://example.fm');
+    const [sunset, warehouse, nightDrive] = result.shows;
+
+    expect(sunset).toMatchObject({
+      description: 'Deep and soulful house for the evening.',
+      imageUrl: 'https://example.fm/img/sunset-grooves.png',
+      showUrl: 'https://example.fm/programme/sunset-grooves',
+      djUrl: 'https://example.fm/hosts/mara'
+    });
+    expect(warehouse.showUrl).toBeUndefined();
+    expect(nightDrive.djUrl).toBeUndefined();
+  });
+
+  it('should read JSON-LD events and convert offsets to station time', () => {
+    const result = parseBroadcastEvents(loadFixture('schema-org/schedule-json-ld.html'), 'Europe/Berlin');
+
+    expect(result.itemsMatched).toBe(3);
+    expect(result.shows).toMatchObject([
+      {
+        dj: 'DJ Nova, DJ Orbit', title: 'Afterhour', start: '22:00', end: '02:00', style: 'Techno, Minimal',
+        startAt: '2025-10-15T20:00:00.000Z', endAt: '2025-10-16T00:00:00.000Z',
+        description: 'Two DJs, four hours.',
+        imageUrl: 'https://sample-radio.example/img/afterhour.jpg',
+        showUrl: 'https://sample-radio.example/shows/afterhour',
+        djUrl: 'https://sample-radio.example/djs/nova'
+      },
+      {
+        dj: 'DJ Sunrise', title: 'Early Birds', start: '08:00', end: '10:00', style: 'Unknown',
+        startAt: '2025-10-16T06:00:00.000Z', endAt: '2025-10-16T08:00:00.000Z'
+      }
+    ]);
+    expect(result.warnings[0]).toMatch(/^Invalid JSON-LD block/);
+    expect(result.warnings[1]).toBe('Incomplete broadcast event: start=2025-10-16T12:00:00+02:00, dj=, title=Open Slot');
+  });
+
+  it('should parse the WAO markup the same way as the layout parser', () => {
+    const html = loadFixture('wao/schedule-regular.html');
+    const adapter = new WaoStationAdapter('technobase.fm');
+    const core = ({ dj, title, start, end, style, description }: ScrapedShow) => ({ dj, title, start, end, style, description });
+
+    expect(parseBroadcastEvents(html, 'Europe/Berlin').shows.map(core)).toEqual(adapter.parseSchedule(html).shows.map(core));
+  });
+});
+
+describe('WaoStationAdapter schema.org fallback', () => {
+  const adapter = new WaoStationAdapter('technobase.fm');
+
+  it('should fall back to schema.org markup when the layout changed', () => {
+    // Redesign: same microdata, new class names
+    const html = loadFixture('wao/schedule-regular.html')
+      .replace('content-list schedule-list', 'programme')
+      .replace(/time-djname/g, 'slot-time');
+
+    const result = adapter.parseSchedule(html);
+
+    expect(result.itemsMatched).toBe(5);
+    expect(result.shows.map(show => show.dj)).toEqual(['DJ Alpha', 'DJ Bravo', 'Charlie Beats', 'DJ Delta', 'DJ Echo']);
+    expect(result.warnings[0]).toBe('Schedule layout not recognized, parsed schema.org markup');
+  });
+
+  it('should keep absolute times from JSON-LD when resolving show times', () => {
+    const scraper = new ScheduleScraper(adapter);
+    const { shows } = adapter.parseSchedule(loadFixture('schema-org/schedule-json-ld.html'));
+
+    const [afterhour] = scraper.resolveShowTimes(shows, '2025-10-16');
+
+    expect(afterhour.day).toBe('2025-10-15');
+    expect(afterhour.endAt).toBe('2025-10-16T00:00:00.000Z');
+  });
+
+  it('should report an empty page when neither strategy finds shows', () => {
+    const result = adapter.parseSchedule(loadFixture('wao/schedule-empty.html'));
+
+    expect(result.itemsMatched).toBe(0);
+    expect(result.containerFound).toBe(true);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it('should tell a page without any schedule apart', () => {
+    const result = adapter.parseSchedule(loadFixture('wao/schedule-empty.html').replace('content-list schedule-list', 'content-list'));
+
+    expect(result.shows).toHaveLength(0);
+    expect(result.containerFound).toBe(false);
+  });
+});
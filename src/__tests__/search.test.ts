@@ -0,0 +1,61 @@
+import { db } from '../database';
+import { ScheduleScraper } from '../scraper';
+import { saveScrapedShows } from '../services/schedule-store';
+import { stationRegistry } from '../stations';
+import { fuzzyDistance, searchTerms } from '../utils/search';
+import { loadFixture } from './helpers/fake-station';
+
+describe('search', () => {
+  beforeAll(async () => {
+    await db.upsertStation({ domain: 'technobase.fm', name: 'Technobase.FM', enabled: true });
+    const scraper = new ScheduleScraper(stationRegistry.resolve('technobase.fm'));
+    const shows = scraper.resolveShowTimes(scraper.parseShows(loadFixture('wao/schedule-regular.html')).shows, '2025-10-15');
+    await saveScrapedShows('technobase.fm', '2025-10-15', shows);
+  });
+
+  it('should fold case and diacritics and allow a typo per four characters', () => {
+    expect(searchTerms('Zoë  & DJ-Alpha')).toEqual(['zoe', 'dj', 'alpha']);
+    expect(fuzzyDistance(['alpah'], 'DJ Alpha')).toBe(1);
+    expect(fuzzyDistance(['alpah'], 'DJ Alphaville')).toBe(1);
+    expect(fuzzyDistance(['bravo'], 'DJ Alpha')).toBeUndefined();
+  });
+
+  it('should find shows, DJs and styles with highlights', async () => {
+    const results = await db.search({ q: 'techno' });
+
+    expect(results.fuzzy).toBe(false);
+    expect(results.styles.map(style => [style.style, style.showCount])).toEqual([['Techno', 2], ['Hard Techno', 1]]);
+    expect(results.shows.map(hit => hit.show.dj).sort()).toEqual(['DJ Alpha', 'DJ Delta', 'DJ Echo']);
+    expect(results.shows.find(hit => hit.show.dj === 'DJ Echo')!.highlights).toEqual({ style: 'Hard <mark>Techno</mark>' });
+
+    const djs = await db.search({ q: 'ALPHA', types: ['djs'] });
+    expect(djs.djs.map(hit => [hit.dj.name, hit.highlights.name])).toEqual([['DJ Alpha', 'DJ <mark>Alpha</mark>']]);
+    expect(djs.shows).toEqual([]);
+  });
+
+  it('should narrow shows down by station and day', async () => {
+    expect((await db.search({ q: 'session', from: '2025-10-15', to: '2025-10-15' })).shows).toHaveLength(1);
+    expect((await db.search({ q: 'session', from: '2025-10-16' })).shows).toHaveLength(0);
+    expect((await db.search({ q: 'session', station: 'housetime.fm' })).shows).toHaveLength(0);
+  });
+
+  it('should fall back to close spellings', async () => {
+    const results = await db.search({ q: 'Charly Beats' });
+
+    expect(results.fuzzy).toBe(true);
+    expect(results.djs.map(hit => hit.dj.name)).toEqual(['Charlie Beats']);
+    expect(results.shows.map(hit => hit.show.title)).toEqual(['Warm Up']);
+  });
+
+  it('should follow renamed and merged DJs', async () => {
+    const bravo = (await db.findDJ('DJ Bravo'))!;
+    const delta = (await db.findDJ('DJ Delta'))!;
+    await db.mergeDJs(bravo.id, [delta.id]);
+
+    const results = await db.search({ q: 'delta', types: ['djs'] });
+    expect(results.djs.map(hit => [hit.dj.name, hit.highlights.aliases])).toEqual([
+      ['DJ Bravo', 'DJ Bravo DJ <mark>Delta</mark>']
+    ]);
+    expect((await db.searchBotDJs('delta')).map(dj => dj.djName)).toEqual(['DJ Bravo', 'DJ Delta']);
+  });
+});
@@ -0,0 +1,68 @@
+import { config } from '../config';
+import { db } from '../database';
+import { ParserHealthService } from '../services/parser-health';
+import { SchedulerService } from '../services/scheduler';
+import { SettingsService } from '../services/settings';
+
+describe('SettingsService', () => {
+  let scheduler: SchedulerService;
+
+  beforeAll(async () => {
+    await db.upsertStation({ domain: 'technobase.fm', name: 'Technobase.FM', enabled: true });
+    scheduler = new SchedulerService(new ParserHealthService(null));
+  });
+
+  it('should persist changes and apply them right away', async () => {
+    const settings = new SettingsService(scheduler);
+    await settings.load();
+    expect(settings.getSource('retentionDays')).toBe('default');
+
+    await settings.update({ retentionDays: 30, httpProxy: 'http://proxy.local:3128' });
+
+    expect(config.retentionDays).toBe(30);
+    expect(config.httpProxy).toBe('http://proxy.local:3128');
+    expect(settings.getSources()).toMatchObject({ retentionDays: 'database', httpProxy: 'database', cronSchedule: 'default' });
+
+    // As after a restart
+    const reloaded = new SettingsService(scheduler);
+    await reloaded.load();
+    expect(reloaded.getSource('retentionDays')).toBe('database');
+    expect(config.retentionDays).toBe(30);
+  });
+
+  it('should fall back to the environment when a setting is removed', async () => {
+    const settings = new SettingsService(scheduler);
+    await settings.load();
+
+    await settings.update({ retentionDays: null, httpProxy: null });
+
+    expect(config.retentionDays).toBe(60);
+    expect(config.httpProxy).toBeUndefined();
+    expect(settings.getSource('retentionDays')).toBe('default');
+    expect(await db.getSettings()).toEqual({});
+  });
+
+  it('should ignore keys that are not settings', async () => {
+    const settings = new SettingsService(scheduler);
+    await settings.load();
+
+    await settings.update({ retentionDays: 14, dataDir: '/tmp' } as any);
+
+    expect(await db.getSettings()).toEqual({ retentionDays: 14 });
+    expect(config.dataDir).not.toBe('/tmp');
+
+    await settings.update({ retentionDays: null });
+  });
+
+  it('should enable the listed stations and disable the others', async () => {
+    const settings = new SettingsService(scheduler);
+
+    await settings.update({ stations: ['housetime.fm'] });
+
+    const stations = await db.getStations();
+    expect(stations.map(station => [station.domain, station.enabled])).toEqual([
+      ['housetime.fm', true],
+      ['technobase.fm', false]
+    ]);
+  });
+});
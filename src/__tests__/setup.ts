@@ -1,7 +1,20 @@
 // Test setup file
-import { config } from '../config';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
-// Mock environment variables for testing
-process.env.NODE_ENV = 'test';
-process.env.DATA_DIR = './test-data';
-process.env.LOG_LEVEL = 'error';
+// The config is read when a test file first imports it, so these apply to every
+// test. Each test file gets its own data directory and starts with an empty database.
+const dataDir = mkdtempSync(join(tmpdir(), 'wao-base-test-'));
+
+process.env.WAOBASE_NODE_ENV = 'test';
+process.env.WAOBASE_DATA_DIR = dataDir;
+process.env.WAOBASE_LOG_LEVEL = 'error';
+process.env.WAOBASE_STATIONS = 'technobase.fm';
+process.env.WAOBASE_TELEGRAM_ENABLED = 'false';
+// Tests only talk to local servers, no need to throttle
+process.env.WAOBASE_HTTP_RATE_LIMIT = '6000';
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
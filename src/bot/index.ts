@@ -3,8 +3,11 @@ import { config } from '../config';
 import { logger } from '../utils/logger';
 import { db, BotUser, BotUserPreferences, BotFavoriteDJ } from '../database';
 import { DJScraperService } from '../services/dj-scraper';
+import { stationRegistry } from '../stations';
+import { formatDayInZone } from '../utils/date-time';
 import { Show } from '../types';
 import { parseNotificationTimes, formatNotificationTime, isValidNotificationTimes } from '../utils/time-parser';
+import { MIN_TERM_LENGTH, matchExpression, searchTerms } from '../utils/search';
 
 export class TelegramBotService {
   private bot: TelegramBot | null = null;
@@ -165,7 +168,7 @@ Lass uns loslegen! 🚀`;
     }, {} as Record<string, BotFavoriteDJ[]>);
 
     for (const [station, djs] of Object.entries(djsByStation)) {
-      text += `**${this.getStationName(station)}:**\n`;
+      text += `**${stationRegistry.getStationName(station)}:**\n`;
       for (const dj of djs) {
         text += `• ${dj.djName}\n`;
       }
@@ -181,6 +184,13 @@ Lass uns loslegen! 🚀`;
     if (!this.bot || !msg.from || !match) return;
 
     const djQuery = match[1].trim();
+    if (!matchExpression(searchTerms(djQuery))) {
+      await this.bot.sendMessage(msg.chat.id, 
+        `❌ Bitte gib mindestens ${MIN_TERM_LENGTH} Zeichen des DJ-Namens an.`
+      );
+      return;
+    }
+
     const searchResults = await this.djScraper.searchDJs(djQuery);
 
     if (searchResults.length === 0) {
@@ -198,13 +208,14 @@ Lass uns loslegen! 🚀`;
       
       await this.bot.sendMessage(msg.chat.id, 
         `✅ **${dj.djName}** zu deinen Lieblings-DJs hinzugefügt!\n\n` +
-        `Station: ${this.getStationName(dj.stationDomain)}`
+        `Station: ${stationRegistry.getStationName(dj.stationDomain)}`
       );
     } else {
       // Show selection menu
       const keyboard = searchResults.map(dj => [
         {
-          text: `${dj.djName} (${this.getStationName(dj.stationDomain)})`,
+          // DJs known from the schedule only are guests of the station
+          text: `${dj.djName} (${stationRegistry.getStationName(dj.stationDomain)}${dj.onTeamPage ? '' : ', Gast'})`,
           callback_data: `add_dj:${dj.stationDomain}:${dj.djName}`
         }
       ]);
@@ -250,7 +261,7 @@ Lass uns loslegen! 🚀`;
       // Show selection menu
       const keyboard = matchingDJs.map(dj => [
         {
-          text: `${dj.djName} (${this.getStationName(dj.stationDomain)})`,
+          text: `${dj.djName} (${stationRegistry.getStationName(dj.stationDomain)})`,
           callback_data: `remove_dj:${dj.stationDomain}:${dj.djName}`
         }
       ]);
@@ -331,20 +342,20 @@ Lass uns loslegen! 🚀`;
     let text = `📅 **Heutiger Sendeplan für deine Lieblings-DJs:**\n\n`;
     let hasShows = false;
 
-    // Get shows for each favorite DJ
+    // Get shows for each favorite DJ, on every station and under every alias
+    const listedDJs = new Set<number>();
     for (const favoriteDJ of favoriteDJs) {
-      const shows = await db.getShows(favoriteDJ.stationDomain, today);
-      const djShows = shows.filter(show => 
-        show.dj.toLowerCase().includes(favoriteDJ.djName.toLowerCase()) ||
-        favoriteDJ.djName.toLowerCase().includes(show.dj.toLowerCase())
-      );
+      if (!favoriteDJ.djId || listedDJs.has(favoriteDJ.djId)) continue;
+      listedDJs.add(favoriteDJ.djId);
+
+      const djShows = await db.getDJShows(favoriteDJ.djId, today, today);
 
       if (djShows.length > 0) {
         hasShows = true;
-        text += `**${favoriteDJ.djName}** (${this.getStationName(favoriteDJ.stationDomain)}):\n`;
+        text += `**${favoriteDJ.djName}**:\n`;
         
         for (const show of djShows) {
-          text += `• ${show.start} - ${show.title}\n`;
+          text += `• ${show.start} - ${show.title} (${stationRegistry.getStationName(show.stationDomain)})\n`;
         }
         text += '\n';
       }
@@ -362,6 +373,7 @@ Lass uns loslegen! 🚀`;
   private async handleHelpCommand(msg: TelegramBot.Message): Promise<void> {
     if (!this.bot) return;
 
+    const stations = await db.getStations();
     const helpText = `❓ **WAO-Base Bot - Hilfe**
 
 **Verfügbare Befehle:**
@@ -387,14 +399,7 @@ Lass uns loslegen! 🚀`;
 **Tipp:** Du kannst auch Teile des DJ-Namens verwenden, z.B. "Cloud" statt "DJ Cloud Seven".
 
 **Unterstützte Stationen:**
-• Technobase.FM
-• Housetime.FM
-• Hardbase.FM
-• Trancebase.FM
-• Coretime.FM
-• Clubtime.FM
-• Teatime.FM
-• Replay.FM
+${stations.map(station => `• ${stationRegistry.getStationName(station.domain)}`).join('\n')}
 
 Viel Spaß beim Hören! 🎧`;
 
@@ -416,7 +421,7 @@ Viel Spaß beim Hören! 🎧`;
       
       await this.bot.editMessageText(
         `✅ **${djName}** zu deinen Lieblings-DJs hinzugefügt!\n\n` +
-        `Station: ${this.getStationName(stationDomain)}`,
+        `Station: ${stationRegistry.getStationName(stationDomain)}`,
         {
           chat_id: query.message.chat.id,
           message_id: query.message.message_id,
@@ -509,35 +514,32 @@ Viel Spaß beim Hören! 🎧`;
     return preferences;
   }
 
-  private getStationName(domain: string): string {
-    const names: Record<string, string> = {
-      'technobase.fm': 'Technobase.FM',
-      'housetime.fm': 'Housetime.FM',
-      'hardbase.fm': 'Hardbase.FM',
-      'trancebase.fm': 'Trancebase.FM',
-      'coretime.fm': 'Coretime.FM',
-      'clubtime.fm': 'Clubtime.FM',
-      'teatime.fm': 'Teatime.FM',
-      'replay.fm': 'Replay.FM'
-    };
-    return names[domain] || domain;
-  }
-
   async sendNotification(telegramId: number, show: Show, stationName: string, notificationTime?: string): Promise<void> {
     if (!this.bot) return;
 
     const timeInfo = notificationTime ? ` (${notificationTime} vorher)` : '';
     const message = `🎵 **Show-Erinnerung${timeInfo}!**
 
-**${show.dj}** legt heute um **${show.start}** auf **${stationName}** auf!
+**${show.dj}** legt ${this.formatShowDay(show)} um **${show.start}** auf **${stationName}** auf!
 
 🎧 **Show:** ${show.title}
 🎭 **Style:** ${show.style}
 ⏰ **Zeit:** ${show.start} - ${show.end}
-
+${this.formatShowDetails(show)}
 Viel Spaß beim Hören! 🚀`;
 
     try {
+      if (show.imageUrl) {
+        try {
+          await this.bot.sendPhoto(telegramId, show.imageUrl, { caption: message, parse_mode: 'Markdown' });
+          logger.info(`Notification sent to user ${telegramId} for show ${show.title}`);
+          return;
+        } catch (error) {
+          // Cover images may be gone or too large, the text alone is enough
+          logger.warn(`Failed to send cover image for show ${show.title}, sending text only:`, error);
+        }
+      }
+
       await this.bot.sendMessage(telegramId, message, { parse_mode: 'Markdown' });
       logger.info(`Notification sent to user ${telegramId} for show ${show.title}`);
     } catch (error) {
@@ -545,6 +547,54 @@ Viel Spaß beim Hören! 🚀`;
     }
   }
 
+  // Description and links of a show, each line ends with a newline
+  private formatShowDetails(show: Show): string {
+    const lines: string[] = [];
+    if (show.description) {
+      const description = show.description.length > 300 ? `${show.description.slice(0, 297)}...` : show.description;
+      lines.push(`\n${this.escapeMarkdown(description)}`);
+    }
+
+    const links = [
+      show.showUrl && `[Zur Show](${show.showUrl})`,
+      show.djUrl && `[DJ-Profil](${show.djUrl})`
+    ].filter(Boolean);
+    if (links.length > 0) {
+      lines.push(`🔗 ${links.join(' · ')}`);
+    }
+
+    return lines.map(line => `${line}\n`).join('');
+  }
+
+  private escapeMarkdown(text: string): string {
+    return text.replace(/([_*`\[])/g, '\\$1');
+  }
+
+  // Operational alerts go to the chats listed in WAOBASE_TELEGRAM_ADMIN_CHAT_IDS
+  async sendAdminMessage(message: string): Promise<void> {
+    if (!this.bot) return;
+
+    for (const chatId of config.telegramAdminChatIds) {
+      try {
+        await this.bot.sendMessage(chatId, message);
+        logger.info(`Admin message sent to chat ${chatId}`);
+      } catch (error) {
+        logger.error(`Failed to send admin message to chat ${chatId}:`, error);
+      }
+    }
+  }
+
+  private formatShowDay(show: Show): string {
+    const timezone = stationRegistry.resolve(show.stationDomain).timezone;
+    const startAt = new Date(show.startAt);
+
+    if (formatDayInZone(startAt, timezone) === formatDayInZone(new Date(), timezone)) {
+      return 'heute';
+    }
+
+    return `am ${startAt.toLocaleDateString('de-DE', { timeZone: timezone, day: '2-digit', month: '2-digit' })}`;
+  }
+
   getStatus(): { isRunning: boolean } {
     return { isRunning: this.isRunning };
   }
@@ -0,0 +1,83 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { db } from '../database';
+import { SnapshotService } from '../services/snapshot-service';
+
+const usage = `Usage: npm run reparse -- [options]
+
+Re-run the schedule parser over archived snapshots (latest per station and day).
+
+Options:
+  --station <domain>   Only snapshots of this station
+  --from <YYYY-MM-DD>  First day
+  --to <YYYY-MM-DD>    Last day
+  --snapshot <id>      A single snapshot
+  --apply              Store the parsed shows (default: dry run)
+  --json               Print the full result as JSON
+  --help               Show this help`;
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      station: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      snapshot: { type: 'string' },
+      apply: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  for (const day of [values.from, values.to]) {
+    if (day && !/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      console.error(`Invalid date: ${day}. Expected YYYY-MM-DD`);
+      return 1;
+    }
+  }
+
+  const snapshotId = values.snapshot !== undefined ? parseInt(values.snapshot, 10) : undefined;
+  if (snapshotId !== undefined && isNaN(snapshotId)) {
+    console.error(`Invalid snapshot id: ${values.snapshot}`);
+    return 1;
+  }
+
+  const results = await new SnapshotService().reparse({
+    stationDomain: values.station,
+    from: values.from,
+    to: values.to,
+    snapshotId,
+    apply: values.apply
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    for (const result of results) {
+      const status = result.error
+        ? `error: ${result.error}`
+        : `${result.itemsMatched} items, ${result.shows.length} shows, ${result.warnings.length} warnings` +
+          (result.applied ? `, ${result.changes} changes applied` : '');
+      console.log(`#${result.snapshotId} ${result.stationDomain} ${result.day} (${result.fetchedAt}): ${status}`);
+    }
+    console.log(`${results.length} snapshots re-parsed${values.apply ? '' : ' (dry run, use --apply to store)'}`);
+  }
+
+  return results.some(result => result.error) ? 1 : 0;
+}
+
+main()
+  .then(code => {
+    db.close();
+    process.exit(code);
+  })
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    db.close();
+    process.exit(1);
+  });
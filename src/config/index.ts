@@ -1,11 +1,18 @@
-export const config = {
+const loadConfig = () => ({
   port: parseInt(process.env.WAOBASE_PORT || '8080', 10),
   baseUrl: process.env.WAOBASE_BASE_URL || 'http://localhost:8080',
   stations: (process.env.WAOBASE_STATIONS || 'technobase.fm').split(',').map(s => s.trim()),
   cronSchedule: process.env.WAOBASE_CRON_SCHEDULE || '0 */2 * * *',
   retentionDays: parseInt(process.env.WAOBASE_RETENTION_DAYS || '60', 10),
+  snapshotRetentionDays: parseInt(process.env.WAOBASE_SNAPSHOT_RETENTION_DAYS || '14', 10),
+  backupSchedule: process.env.WAOBASE_BACKUP_SCHEDULE ?? '0 3 * * *', // empty disables scheduled backups
+  backupKeep: parseInt(process.env.WAOBASE_BACKUP_KEEP || '7', 10),
   httpProxy: process.env.WAOBASE_HTTP_PROXY || undefined,
   httpsProxy: process.env.WAOBASE_HTTPS_PROXY || undefined,
+  noProxy: process.env.WAOBASE_NO_PROXY || process.env.NO_PROXY || undefined,
+  httpTimeoutMs: parseInt(process.env.WAOBASE_HTTP_TIMEOUT_MS || '15000', 10),
+  httpMaxRetries: parseInt(process.env.WAOBASE_HTTP_MAX_RETRIES || '3', 10),
+  httpRateLimit: parseInt(process.env.WAOBASE_HTTP_RATE_LIMIT || '30', 10),
   nodeEnv: process.env.WAOBASE_NODE_ENV || 'development',
   logLevel: process.env.WAOBASE_LOG_LEVEL || 'info',
   timezone: process.env.WAOBASE_TZ || 'Europe/Berlin',
@@ -16,6 +23,15 @@ export const config = {
   telegramBotToken: process.env.WAOBASE_TELEGRAM_BOT_TOKEN || '',
   telegramWebhookUrl: process.env.WAOBASE_TELEGRAM_WEBHOOK_URL || '',
   telegramEnabled: process.env.WAOBASE_TELEGRAM_ENABLED === 'true',
-} as const;
+  telegramAdminChatIds: (process.env.WAOBASE_TELEGRAM_ADMIN_CHAT_IDS || '')
+    .split(',')
+    .map(s => parseInt(s.trim(), 10))
+    .filter(id => !isNaN(id)),
+});
 
-export type Config = typeof config;
+export const config = loadConfig();
+
+// Values from the environment, before settings stored via the API are applied
+export const envConfig: Readonly<Config> = loadConfig();
+
+export type Config = ReturnType<typeof loadConfig>;
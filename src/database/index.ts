@@ -1,9 +1,57 @@
 import Database from 'better-sqlite3';
+import { copyFileSync, rmSync } from 'fs';
 import { join } from 'path';
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
 import { config } from '../config';
-import { createTables, cleanupOldData } from './schema';
-import { Station, Day, Show } from '../types';
+import { cleanupOldData } from './schema';
+import { getMigrationStatus, runMigrations } from './migrations';
+import {
+  Station, Day, Show, ShowChange, DJ, ShowChangeQuery, ShowChangeType, ShowStatus, ShowValues,
+  ScrapeRun, ScrapeRunItem, ScrapeRunQuery, ScrapeRunStatus, ScrapeTrigger, SchedulePage,
+  PageSnapshot, PageSnapshotQuery, ParserHealth, ScrapedDJ, TeamChanges, MigrationResult, MigrationStatus,
+  SearchQuery, SearchResults, DJSearchHit, ShowSearchHit, StyleSearchHit, ShowQuery, ShowPage, ShowSort
+} from '../types';
+import { diffShows, getShowValues } from './reconcile';
 import { logger } from '../utils/logger';
+import { normalizePerformerName, splitPerformers } from '../utils/performers';
+import {
+  HIGHLIGHT_END, HIGHLIGHT_START, fuzzyDistance, fuzzyMatchExpression, matchExpression, searchTerms
+} from '../utils/search';
+
+// Aliases and stations of a DJ as JSON arrays
+const DJ_DETAILS = `(
+  SELECT json_group_array(name) FROM (SELECT name FROM dj_aliases WHERE dj_id = djs.id ORDER BY name COLLATE NOCASE)
+) AS aliases, (
+  SELECT json_group_array(station_domain) FROM (
+    SELECT station_domain FROM bot_djs WHERE dj_id = djs.id
+    UNION
+    SELECT shows.station_domain FROM show_performers JOIN shows ON shows.id = show_performers.show_id
+    WHERE show_performers.dj_id = djs.id
+  )
+) AS stations`;
+
+// Matched column of a search index with marks around the matches
+const highlight = (table: string, column: number) => `highlight(${table}, ${column}, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}')`;
+
+// Columns shows can be sorted by, and the value of a show in that column
+const SHOW_SORTS: Record<ShowSort, { column: string; value: (show: Show) => string }> = {
+  start: { column: 'start_at', value: show => show.startAt },
+  station: { column: 'station_domain', value: show => show.stationDomain },
+  dj: { column: 'dj COLLATE NOCASE', value: show => show.dj },
+  title: { column: 'title COLLATE NOCASE', value: show => show.title },
+  style: { column: 'style COLLATE NOCASE', value: show => show.style }
+};
+
+// Rows a search index hands over before close spellings and short terms are checked
+const SEARCH_CANDIDATES = 500;
+
+// Performers of a show as JSON array, in lineup order
+const SHOW_PERFORMERS = `(
+  SELECT json_group_array(name) FROM (
+    SELECT name FROM show_performers WHERE show_id = shows.id ORDER BY position
+  )
+) AS performers`;
 
 export interface BotUser {
   telegramId: number;
@@ -29,6 +77,7 @@ export interface BotFavoriteDJ {
   telegramId: number;
   stationDomain: string;
   djName: string;
+  djId?: number; // canonical DJ, followed on every station
   createdAt: Date;
 }
 
@@ -37,14 +86,47 @@ export interface BotDJ {
   stationDomain: string;
   djName: string;
   realName?: string;
+  djId?: number; // canonical DJ
+  role?: string;
+  profileUrl?: string;
+  imageUrl?: string;
+  onTeamPage: boolean; // source: listed on the latest team page
+  inSchedule: boolean; // source: performs in stored shows
+  firstShowDay?: string; // of the stored shows at the station
+  lastShowDay?: string;
+  showCount: number;
   isActive: boolean;
+  firstSeenAt?: Date; // on the team page
+  lastSeenAt?: Date;
   lastUpdated: Date;
 }
 
+/**
+ * Portable copy of the data worth moving between instances. Scrape history,
+ * snapshots and team page listings are left out, they are rebuilt by scraping.
+ */
+export interface ExportData {
+  format: 'wao-base-export';
+  version: number;
+  exportedAt: string;
+  stations: Omit<Station, 'lastScraped'>[];
+  shows: Omit<Show, 'id' | 'performers' | 'createdAt' | 'updatedAt'>[];
+  djs: Pick<DJ, 'id' | 'name' | 'realName' | 'aliases'>[]; // ids are only used to link favorites
+  botUsers: Omit<BotUser, 'createdAt' | 'updatedAt'>[];
+  preferences: Omit<BotUserPreferences, 'createdAt' | 'updatedAt'>[];
+  favorites: Omit<BotFavoriteDJ, 'id' | 'createdAt'>[];
+}
+
+// Rows added per section; rows that already exist are left as they are
+export type ImportResult = Record<Exclude<keyof ExportData, 'format' | 'version' | 'exportedAt'>, number>;
+
+export const EXPORT_VERSION = 1;
+
 class DatabaseManager {
   private db: Database.Database | null = null;
   private isInitialized = false;
   private initializationError: Error | null = null;
+  private lastMigration: MigrationResult | null = null; // of this start
 
   constructor() {
     this.initializeDatabase();
@@ -100,7 +182,10 @@ class DatabaseManager {
       throw new Error('Database not initialized');
     }
     try {
-      this.db.exec(createTables);
+      this.lastMigration = runMigrations(this.db, join(config.dataDir, 'backups'));
+      this.backfillShowPerformers();
+      this.backfillDJIdentities();
+      this.refreshAllScheduleDJs();
       logger.info('Database tables initialized');
     } catch (error) {
       logger.error('Failed to initialize database tables:', error);
@@ -108,6 +193,84 @@ class DatabaseManager {
     }
   }
 
+  private backfillShowPerformers(): void {
+    const rows = this.db!.prepare(
+      'SELECT id, dj FROM shows WHERE id NOT IN (SELECT show_id FROM show_performers)'
+    ).all() as any[];
+    if (rows.length === 0) return;
+
+    const replacePerformers = this.performersWriter();
+    this.db!.transaction(() => rows.forEach(row => replacePerformers(row.id, row.dj)))();
+    logger.info(`Backfilled performers for ${rows.length} shows`);
+  }
+
+  // Link DJ names stored before canonical DJs existed
+  private backfillDJIdentities(): void {
+    const performers = this.db!.prepare('SELECT show_id, position, name FROM show_performers WHERE dj_id IS NULL').all() as any[];
+    const botDJs = this.db!.prepare('SELECT id, dj_name FROM bot_djs WHERE dj_id IS NULL').all() as any[];
+    const favorites = this.db!.prepare('SELECT id, dj_name FROM bot_favorite_djs WHERE dj_id IS NULL').all() as any[];
+    if (performers.length + botDJs.length + favorites.length === 0) return;
+
+    const resolveDJ = this.djResolver();
+    const linkPerformer = this.db!.prepare('UPDATE show_performers SET dj_id = ? WHERE show_id = ? AND position = ?');
+    const linkBotDJ = this.db!.prepare('UPDATE bot_djs SET dj_id = ? WHERE id = ?');
+    const linkFavorite = this.db!.prepare('UPDATE bot_favorite_djs SET dj_id = ? WHERE id = ?');
+
+    this.db!.transaction(() => {
+      performers.forEach(row => linkPerformer.run(resolveDJ(row.name), row.show_id, row.position));
+      botDJs.forEach(row => linkBotDJ.run(resolveDJ(row.dj_name), row.id));
+      favorites.forEach(row => linkFavorite.run(resolveDJ(row.dj_name), row.id));
+      this.db!.exec(`
+        UPDATE djs SET real_name = (SELECT real_name FROM bot_djs WHERE dj_id = djs.id AND real_name IS NOT NULL)
+        WHERE real_name IS NULL
+      `);
+    })();
+    logger.info(`Linked ${performers.length + botDJs.length + favorites.length} DJ names to canonical DJs`);
+  }
+
+  // Shows age out with the retention period, so the roster is refreshed on every start
+  private refreshAllScheduleDJs(): void {
+    const stations = this.db!.prepare('SELECT DISTINCT station_domain FROM shows').all() as any[];
+    this.db!.transaction(() => stations.forEach(row => this.refreshScheduleDJs(row.station_domain)))();
+  }
+
+  // Replaces the performers of a show with the ones listed in its DJ field
+  private performersWriter(): (showId: number, dj: string) => void {
+    const resolveDJ = this.djResolver();
+    const deletePerformers = this.db!.prepare('DELETE FROM show_performers WHERE show_id = ?');
+    const insertPerformer = this.db!.prepare(
+      'INSERT INTO show_performers (show_id, position, name, normalized_name, dj_id) VALUES (?, ?, ?, ?, ?)'
+    );
+
+    return (showId, dj) => {
+      deletePerformers.run(showId);
+      splitPerformers(dj).forEach((name, position) => {
+        insertPerformer.run(showId, position, name, normalizePerformerName(name), resolveDJ(name));
+      });
+    };
+  }
+
+  /**
+   * Canonical DJ of a name. Unknown names become a new DJ with the name as
+   * its first alias; spellings that normalize the same share the DJ.
+   */
+  private djResolver(): (name: string) => number {
+    const findAlias = this.db!.prepare('SELECT dj_id FROM dj_aliases WHERE normalized_name = ?');
+    const insertDJ = this.db!.prepare('INSERT INTO djs (name) VALUES (?)');
+    const insertAlias = this.db!.prepare('INSERT INTO dj_aliases (normalized_name, dj_id, name) VALUES (?, ?, ?)');
+
+    return name => {
+      const displayName = name.replace(/\s+/g, ' ').trim();
+      const normalizedName = normalizePerformerName(displayName);
+      const alias = findAlias.get(normalizedName) as any;
+      if (alias) return alias.dj_id;
+
+      const djId = Number(insertDJ.run(displayName).lastInsertRowid);
+      insertAlias.run(normalizedName, djId, displayName);
+      return djId;
+    };
+  }
+
   private ensureDatabaseInitialized(): void {
     if (!this.isInitialized || !this.db) {
       if (this.initializationError) {
@@ -117,49 +280,128 @@ class DatabaseManager {
     }
   }
 
+  // Schema methods
+  async getMigrationStatus(): Promise<MigrationStatus & { lastMigration: MigrationResult | null }> {
+    this.ensureDatabaseInitialized();
+    return { ...getMigrationStatus(this.db!), lastMigration: this.lastMigration };
+  }
+
   // Station methods
   async getStations(): Promise<Station[]> {
     this.ensureDatabaseInitialized();
     const stmt = this.db!.prepare('SELECT * FROM stations ORDER BY domain');
     const results = stmt.all() as any[];
-    
-    // Map database fields to API fields
-    return results.map(row => ({
-      domain: row.domain,
-      name: row.name,
-      enabled: Boolean(row.enabled),
-      lastScraped: row.last_scraped ? new Date(row.last_scraped) : undefined
-    }));
+    return results.map(row => this.mapStationRow(row));
   }
 
   async getStation(domain: string): Promise<Station | null> {
     this.ensureDatabaseInitialized();
     const stmt = this.db!.prepare('SELECT * FROM stations WHERE domain = ?');
     const result = stmt.get(domain) as any;
-    
-    if (!result) return null;
-    
-    // Map database fields to API fields
-    return {
-      domain: result.domain,
-      name: result.name,
-      enabled: Boolean(result.enabled),
-      lastScraped: result.last_scraped ? new Date(result.last_scraped) : undefined
-    };
+    return result ? this.mapStationRow(result) : null;
   }
 
-  async upsertStation(station: Station): Promise<void> {
+  /**
+   * Register a station. The settings of a station that already exists are
+   * kept, so changes made at runtime survive a restart.
+   */
+  async upsertStation(station: Pick<Station, 'domain' | 'name' | 'enabled'>): Promise<void> {
     this.ensureDatabaseInitialized();
     const stmt = this.db!.prepare(`
-      INSERT INTO stations (domain, name, enabled, last_scraped, updated_at)
-      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      INSERT INTO stations (domain, name, enabled, updated_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
       ON CONFLICT(domain) DO UPDATE SET
         name = excluded.name,
-        enabled = excluded.enabled,
-        last_scraped = excluded.last_scraped,
         updated_at = CURRENT_TIMESTAMP
     `);
-    stmt.run(station.domain, station.name, station.enabled ? 1 : 0, station.lastScraped?.toISOString());
+    stmt.run(station.domain, station.name, station.enabled ? 1 : 0);
+  }
+
+  async addStation(station: Omit<Station, 'lastScraped'>): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const stmt = this.db!.prepare(`
+      INSERT INTO stations (domain, name, enabled, days_back, days_forward, cron_schedule)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      station.domain, station.name, station.enabled ? 1 : 0,
+      station.daysBack, station.daysForward, station.cronSchedule ?? null
+    );
+  }
+
+  async updateStation(domain: string, station: Omit<Station, 'domain' | 'lastScraped'>): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const stmt = this.db!.prepare(`
+      UPDATE stations SET
+        name = ?, enabled = ?, days_back = ?, days_forward = ?, cron_schedule = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE domain = ?
+    `);
+    stmt.run(
+      station.name, station.enabled ? 1 : 0,
+      station.daysBack, station.daysForward, station.cronSchedule ?? null, domain
+    );
+  }
+
+  /**
+   * Remove a station together with its days, shows, changes, snapshots and
+   * DJ list. Favorites stay, they follow the DJ on other stations.
+   */
+  async deleteStation(domain: string): Promise<boolean> {
+    this.ensureDatabaseInitialized();
+    const deleteStation = this.db!.transaction(() => {
+      this.db!.prepare('DELETE FROM bot_djs WHERE station_domain = ?').run(domain);
+      return this.db!.prepare('DELETE FROM stations WHERE domain = ?').run(domain).changes > 0;
+    });
+    return deleteStation();
+  }
+
+  async markStationScraped(domain: string, scrapedAt: Date = new Date()): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const stmt = this.db!.prepare('UPDATE stations SET last_scraped = ? WHERE domain = ?');
+    stmt.run(scrapedAt.toISOString(), domain);
+  }
+
+  private mapStationRow(row: any): Station {
+    return {
+      domain: row.domain,
+      name: row.name,
+      enabled: Boolean(row.enabled),
+      daysBack: row.days_back,
+      daysForward: row.days_forward,
+      cronSchedule: row.cron_schedule || undefined,
+      lastScraped: row.last_scraped ? new Date(row.last_scraped) : undefined
+    };
+  }
+
+  // Settings methods
+  async getSettings(): Promise<Record<string, unknown>> {
+    this.ensureDatabaseInitialized();
+    const rows = this.db!.prepare('SELECT key, value FROM settings').all() as any[];
+    return Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+  }
+
+  /**
+   * Store settings; a value of null removes the setting, so the environment
+   * value applies again.
+   */
+  async saveSettings(values: Record<string, unknown>): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const upsert = this.db!.prepare(`
+      INSERT INTO settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `);
+    const remove = this.db!.prepare('DELETE FROM settings WHERE key = ?');
+
+    this.db!.transaction(() => {
+      for (const [key, value] of Object.entries(values)) {
+        if (value === undefined) continue;
+        if (value === null) {
+          remove.run(key);
+        } else {
+          upsert.run(key, JSON.stringify(value));
+        }
+      }
+    })();
   }
 
   // Day methods
@@ -195,69 +437,980 @@ class DatabaseManager {
   }
 
   // Show methods
-  async getShows(stationDomain: string, date?: string, from?: string, to?: string): Promise<Show[]> {
+  async getShows(
+    stationDomain: string,
+    date?: string,
+    from?: string,
+    to?: string,
+    includeCancelled = false,
+    performer?: string
+  ): Promise<Show[]> {
+    const range = date ? { from: date, to: date } : from && to ? { from, to } : {};
+    const { shows } = await this.queryShows({ stations: [stationDomain], ...range, includeCancelled, performer });
+    return shows;
+  }
+
+  /**
+   * Shows of any number of stations in one query. With a `limit` the result
+   * is a page; pass its `nextCursor` as `after` for the next one.
+   */
+  async queryShows(query: ShowQuery = {}): Promise<ShowPage> {
     this.ensureDatabaseInitialized();
-    let query = 'SELECT * FROM shows WHERE station_domain = ?';
-    const params: any[] = [stationDomain];
+    let sql = `SELECT *, ${SHOW_PERFORMERS} FROM shows WHERE 1 = 1`;
+    const params: any[] = [];
 
-    if (date) {
-      query += ' AND day = ?';
-      params.push(date);
-    } else if (from && to) {
-      query += ' AND day >= ? AND day <= ?';
-      params.push(from, to);
+    if (query.stations && query.stations.length > 0) {
+      sql += ` AND station_domain IN (${query.stations.map(() => '?').join(', ')})`;
+      params.push(...query.stations);
     }
 
-    query += ' ORDER BY day, start_time';
+    if (query.from) {
+      sql += ' AND day >= ?';
+      params.push(query.from);
+    }
+    if (query.to) {
+      sql += ' AND day <= ?';
+      params.push(query.to);
+    }
 
-    const stmt = this.db!.prepare(query);
-    const results = stmt.all(...params) as any[];
-    
+    if (!query.includeCancelled) {
+      sql += " AND status != 'cancelled'";
+    }
+
+    // Matches every show the performer is part of, alone or in a lineup, under any alias
+    if (query.performer) {
+      sql += ` AND id IN (
+        SELECT show_id FROM show_performers
+        WHERE dj_id = (SELECT dj_id FROM dj_aliases WHERE normalized_name = ?)
+      )`;
+      params.push(normalizePerformerName(query.performer));
+    }
+
+    if (query.styles && query.styles.length > 0) {
+      sql += ` AND style COLLATE NOCASE IN (${query.styles.map(() => '?').join(', ')})`;
+      params.push(...query.styles);
+    }
+
+    // Start times are local to the station, so one range fits every timezone
+    if (query.timeFrom && query.timeTo && query.timeFrom > query.timeTo) {
+      sql += ' AND (start_time >= ? OR start_time < ?)';
+      params.push(query.timeFrom, query.timeTo);
+    } else {
+      if (query.timeFrom) {
+        sql += ' AND start_time >= ?';
+        params.push(query.timeFrom);
+      }
+      if (query.timeTo) {
+        sql += ' AND start_time < ?';
+        params.push(query.timeTo);
+      }
+    }
+
+    // Start and id break ties, so every show has a unique position for the cursor
+    const { column, value } = SHOW_SORTS[query.sort ?? 'start'];
+    const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+    if (query.after) {
+      sql += ` AND (${column}, start_at, id) ${direction === 'ASC' ? '>' : '<'} (?, ?, ?)`;
+      params.push(...query.after);
+    }
+    sql += ` ORDER BY ${column} ${direction}, start_at ${direction}, id ${direction}`;
+
+    // One more than requested tells whether there is a next page
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(query.limit + 1);
+    }
+
+    const rows = this.db!.prepare(sql).all(...params) as any[];
+    const shows = rows.slice(0, query.limit ?? rows.length).map(row => this.mapShowRow(row));
+    if (query.limit === undefined || rows.length <= query.limit) {
+      return { shows };
+    }
+
+    const last = shows[shows.length - 1];
+    return { shows, nextCursor: [value(last), last.startAt, last.id!] };
+  }
+
+  private mapShowRow(row: any): Show {
     // Map database fields to API fields
-    return results.map(row => ({
+    return {
       id: row.id,
       day: row.day,
       stationDomain: row.station_domain,
       dj: row.dj,
+      performers: row.performers ? JSON.parse(row.performers) : splitPerformers(row.dj),
       title: row.title,
       start: row.start_time,
       end: row.end_time,
+      startAt: row.start_at,
+      endAt: row.end_at,
       style: row.style,
-      createdAt: row.created_at
-    }));
+      description: row.description || undefined,
+      imageUrl: row.image_url || undefined,
+      showUrl: row.show_url || undefined,
+      djUrl: row.dj_url || undefined,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || undefined
+    };
   }
 
-  async upsertShows(shows: Show[]): Promise<void> {
+  /**
+   * Reconcile a fresh scrape of one day with the stored shows of that day.
+   * Shows on the page that belong to another day (overnight shows from the
+   * evening before) are only inserted when missing.
+   * Change events are recorded once the day has been scraped before.
+   */
+  async reconcileShows(stationDomain: string, day: string, shows: Show[]): Promise<ShowChange[]> {
     this.ensureDatabaseInitialized();
-    const stmt = this.db!.prepare(`
-      INSERT INTO shows (day, station_domain, dj, title, start_time, end_time, style)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(day, station_domain, dj, title, start_time, end_time) DO NOTHING
-    `);
-
-    const transaction = this.db!.transaction((shows: Show[]) => {
-      for (const show of shows) {
-        stmt.run(
-          show.day,
-          show.stationDomain,
-          show.dj,
-          show.title,
-          show.start,
-          show.end,
-          show.style
+    const database = this.db!;
+
+    const insertShow = database.prepare(`
+      INSERT INTO shows (
+        day, station_domain, dj, title, start_time, end_time, start_at, end_at, style,
+        description, image_url, show_url, dj_url, status
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'scheduled')
+      ON CONFLICT DO NOTHING
+    `);
+    const updateShow = database.prepare(`
+      UPDATE shows SET
+        day = ?, dj = ?, title = ?, start_time = ?, end_time = ?, start_at = ?, end_at = ?, style = ?,
+        description = ?, image_url = ?, show_url = ?, dj_url = ?,
+        status = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+    const refreshShow = database.prepare(`
+      UPDATE shows SET description = ?, image_url = ?, show_url = ?, dj_url = ? WHERE id = ?
+    `);
+    // A cancelled row in the slot a show moves into (e.g. stored under the neighbouring day) is the
+    // same show; its history moves over before the row goes, so the change feed keeps it
+    const findCancelledDuplicate = database.prepare(`
+      SELECT id FROM shows
+      WHERE station_domain = ? AND start_at = ? AND dj = ? AND title = ? AND status = 'cancelled' AND id != ?
+    `);
+    const moveChanges = database.prepare('UPDATE show_changes SET show_id = ? WHERE show_id = ?');
+    const deleteShow = database.prepare('DELETE FROM shows WHERE id = ?');
+    const cancelShow = database.prepare(`
+      UPDATE shows SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `);
+    const replacePerformers = this.performersWriter();
+    const insertChange = database.prepare(`
+      INSERT INTO show_changes (show_id, station_domain, day, change_type, changed_fields, old_values, new_values, detected_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const transaction = database.transaction((): ShowChange[] => {
+      const previouslyScraped = Boolean(
+        database.prepare('SELECT 1 FROM days WHERE station_domain = ? AND day = ?').get(stationDomain, day)
+      );
+      const existing = (database.prepare('SELECT * FROM shows WHERE station_domain = ? AND day = ?')
+        .all(stationDomain, day) as any[]).map(row => this.mapShowRow(row));
+
+      const dayShows = shows.filter(show => show.day === day);
+      const otherShows = shows.filter(show => show.day !== day);
+      const diff = diffShows(existing, dayShows);
+      const changes: ShowChange[] = [];
+
+      const record = (showId: number, changeType: ShowChangeType, changedFields: (keyof ShowValues)[], before?: Show, after?: Show) => {
+        if (!previouslyScraped) return;
+        const oldValues = before ? getShowValues(before) : undefined;
+        const newValues = after ? getShowValues(after) : undefined;
+        const detectedAt = new Date().toISOString();
+        const result = insertChange.run(
+          showId,
+          stationDomain,
+          day,
+          changeType,
+          JSON.stringify(changedFields),
+          oldValues ? JSON.stringify(oldValues) : null,
+          newValues ? JSON.stringify(newValues) : null,
+          detectedAt
+        );
+        changes.push({
+          id: Number(result.lastInsertRowid),
+          showId,
+          stationDomain,
+          day,
+          changeType,
+          changedFields,
+          oldValues,
+          newValues,
+          detectedAt
+        });
+      };
+
+      const metadata = (show: Show) => [
+        show.description ?? null, show.imageUrl ?? null, show.showUrl ?? null, show.djUrl ?? null
+      ];
+
+      const update = (id: number, show: Show, status: ShowStatus) => {
+        const duplicate = findCancelledDuplicate.get(stationDomain, show.startAt, show.dj, show.title, id) as any;
+        if (duplicate) {
+          moveChanges.run(id, duplicate.id);
+          deleteShow.run(duplicate.id);
+        }
+        updateShow.run(
+          show.day, show.dj, show.title, show.start, show.end, show.startAt, show.endAt, show.style,
+          ...metadata(show), status, id
+        );
+        replacePerformers(id, show.dj);
+      };
+
+      for (const { before, after, changedFields } of diff.changed) {
+        update(before.id!, after, 'changed');
+        record(before.id!, 'changed', changedFields, before, after);
+      }
+
+      for (const { before, after } of diff.restored) {
+        update(before.id!, after, 'scheduled');
+        record(before.id!, 'added', [], undefined, after);
+      }
+
+      for (const show of diff.cancelled) {
+        cancelShow.run(show.id);
+        record(show.id!, 'cancelled', [], show, undefined);
+      }
+
+      for (const { before, after } of diff.refreshed) {
+        refreshShow.run(...metadata(after), before.id);
+      }
+
+      for (const show of diff.added) {
+        const result = insertShow.run(
+          show.day, stationDomain, show.dj, show.title, show.start, show.end, show.startAt, show.endAt, show.style,
+          ...metadata(show)
+        );
+        if (result.changes > 0) {
+          replacePerformers(Number(result.lastInsertRowid), show.dj);
+          record(Number(result.lastInsertRowid), 'added', [], undefined, show);
+        }
+      }
+
+      for (const show of otherShows) {
+        const result = insertShow.run(
+          show.day, stationDomain, show.dj, show.title, show.start, show.end, show.startAt, show.endAt, show.style,
+          ...metadata(show)
         );
+        if (result.changes > 0) {
+          replacePerformers(Number(result.lastInsertRowid), show.dj);
+        }
       }
+
+      this.refreshScheduleDJs(stationDomain);
+      return changes;
+    });
+
+    return transaction();
+  }
+
+  // Show change methods
+  async getShowChanges(query: ShowChangeQuery = {}): Promise<ShowChange[]> {
+    this.ensureDatabaseInitialized();
+    let sql = 'SELECT * FROM show_changes WHERE 1 = 1';
+    const params: any[] = [];
+
+    if (query.stationDomain) {
+      sql += ' AND station_domain = ?';
+      params.push(query.stationDomain);
+    }
+    if (query.since) {
+      sql += ' AND detected_at >= ?';
+      params.push(query.since);
+    }
+    if (query.changeType) {
+      sql += ' AND change_type = ?';
+      params.push(query.changeType);
+    }
+
+    // Newest entries within the limit, returned in chronological order
+    sql += ' ORDER BY detected_at DESC, id DESC LIMIT ?';
+    params.push(query.limit || 500);
+
+    const stmt = this.db!.prepare(sql);
+    const results = stmt.all(...params) as any[];
+
+    return results.reverse().map(row => ({
+      id: row.id,
+      showId: row.show_id,
+      stationDomain: row.station_domain,
+      day: row.day,
+      changeType: row.change_type,
+      changedFields: JSON.parse(row.changed_fields || '[]'),
+      oldValues: row.old_values ? JSON.parse(row.old_values) : undefined,
+      newValues: row.new_values ? JSON.parse(row.new_values) : undefined,
+      detectedAt: row.detected_at
+    }));
+  }
+
+  // DJ methods
+  async getDJs(search?: string): Promise<DJ[]> {
+    this.ensureDatabaseInitialized();
+    let query = `SELECT *, ${DJ_DETAILS} FROM djs`;
+    const params: any[] = [];
+
+    if (search) {
+      query += ' WHERE id IN (SELECT dj_id FROM dj_aliases WHERE normalized_name LIKE ?)';
+      params.push(`%${normalizePerformerName(search)}%`);
+    }
+
+    query += ' ORDER BY name COLLATE NOCASE';
+
+    const results = this.db!.prepare(query).all(...params) as any[];
+    return results.map(row => this.mapDJRow(row));
+  }
+
+  async getDJ(id: number): Promise<DJ | null> {
+    this.ensureDatabaseInitialized();
+    const result = this.db!.prepare(`SELECT *, ${DJ_DETAILS} FROM djs WHERE id = ?`).get(id) as any;
+    return result ? this.mapDJRow(result) : null;
+  }
+
+  async findDJ(name: string): Promise<DJ | null> {
+    this.ensureDatabaseInitialized();
+    const alias = this.db!.prepare('SELECT dj_id FROM dj_aliases WHERE normalized_name = ?')
+      .get(normalizePerformerName(name)) as any;
+    return alias ? this.getDJ(alias.dj_id) : null;
+  }
+
+  // Shows of a DJ on every station, including B2B sets and lineups
+  async getDJShows(djId: number, from: string, to: string): Promise<Show[]> {
+    this.ensureDatabaseInitialized();
+    const results = this.db!.prepare(`
+      SELECT *, ${SHOW_PERFORMERS} FROM shows
+      WHERE id IN (SELECT show_id FROM show_performers WHERE dj_id = ?)
+        AND day >= ? AND day <= ? AND status != 'cancelled'
+      ORDER BY start_at
+    `).all(djId, from, to) as any[];
+
+    return results.map(row => this.mapShowRow(row));
+  }
+
+  /**
+   * Merge DJs into `targetId`: their aliases, shows, team listings and
+   * followers move to the target and the merged DJs are deleted.
+   */
+  async mergeDJs(targetId: number, sourceIds: number[]): Promise<DJ> {
+    this.ensureDatabaseInitialized();
+    const database = this.db!;
+    const placeholders = sourceIds.map(() => '?').join(', ');
+
+    database.transaction(() => {
+      for (const table of ['dj_aliases', 'show_performers', 'bot_djs', 'bot_favorite_djs']) {
+        database.prepare(`UPDATE ${table} SET dj_id = ? WHERE dj_id IN (${placeholders})`).run(targetId, ...sourceIds);
+      }
+      database.prepare(`
+        UPDATE djs SET
+          real_name = COALESCE(real_name, (SELECT real_name FROM djs WHERE id IN (${placeholders}) AND real_name IS NOT NULL)),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(...sourceIds, targetId);
+      database.prepare(`DELETE FROM djs WHERE id IN (${placeholders})`).run(...sourceIds);
+    })();
+
+    return (await this.getDJ(targetId))!;
+  }
+
+  /**
+   * Move aliases of a DJ to a new DJ, together with the shows, team listings
+   * and followers under those names. The new DJ is named after the first
+   * alias unless a name is given.
+   */
+  async splitDJ(djId: number, aliases: string[], name?: string): Promise<DJ> {
+    this.ensureDatabaseInitialized();
+    const database = this.db!;
+    const moved = new Set(aliases.map(alias => normalizePerformerName(alias)));
+    const movedAliases = (database.prepare('SELECT * FROM dj_aliases WHERE dj_id = ?').all(djId) as any[])
+      .filter(alias => moved.has(alias.normalized_name));
+    const isMoved = (djName: string) => moved.has(normalizePerformerName(djName));
+    if (movedAliases.length === 0) {
+      throw new Error(`None of the aliases belong to DJ ${djId}`);
+    }
+
+    const newId = database.transaction((): number => {
+      const id = Number(database.prepare('INSERT INTO djs (name) VALUES (?)').run(name || movedAliases[0].name).lastInsertRowid);
+      const moveAlias = database.prepare('UPDATE dj_aliases SET dj_id = ? WHERE normalized_name = ?');
+      movedAliases.forEach(alias => moveAlias.run(id, alias.normalized_name));
+
+      const movePerformers = database.prepare('UPDATE show_performers SET dj_id = ? WHERE dj_id = ? AND normalized_name = ?');
+      movedAliases.forEach(alias => movePerformers.run(id, djId, alias.normalized_name));
+
+      for (const table of ['bot_djs', 'bot_favorite_djs']) {
+        const move = database.prepare(`UPDATE ${table} SET dj_id = ? WHERE id = ?`);
+        (database.prepare(`SELECT id, dj_name FROM ${table} WHERE dj_id = ?`).all(djId) as any[])
+          .filter(row => isMoved(row.dj_name))
+          .forEach(row => move.run(id, row.id));
+      }
+
+      database.prepare('UPDATE djs SET updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(djId);
+      return id;
+    })();
+
+    return (await this.getDJ(newId))!;
+  }
+
+  private mapDJRow(row: any): DJ {
+    return {
+      id: row.id,
+      name: row.name,
+      realName: row.real_name || undefined,
+      aliases: JSON.parse(row.aliases),
+      stations: JSON.parse(row.stations),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // Search methods
+  /**
+   * Search DJs, shows and styles in the full-text indexes, best matches
+   * first. When nothing matches exactly, close spellings are searched instead.
+   * Terms shorter than three characters only narrow the results down.
+   */
+  async search(query: SearchQuery): Promise<SearchResults> {
+    this.ensureDatabaseInitialized();
+    const terms = searchTerms(query.q);
+    const types = query.types ?? ['djs', 'shows', 'styles'];
+    const limit = query.limit ?? 20;
+
+    const run = (match: string) => ({
+      djs: types.includes('djs') ? this.searchDJIndex(match, terms, query).slice(0, limit) : [],
+      shows: types.includes('shows') ? this.searchShowIndex(match, terms, query).slice(0, limit) : [],
+      styles: types.includes('styles') ? this.searchStyleIndex(match, terms, query).slice(0, limit) : []
+    });
+    const isEmpty = (results: ReturnType<typeof run>) =>
+      results.djs.length + results.shows.length + results.styles.length === 0;
+
+    const exact = matchExpression(terms);
+    if (!exact) {
+      return { query: query.q, fuzzy: false, djs: [], shows: [], styles: [] };
+    }
+    const results = run(exact);
+    if (!isEmpty(results)) {
+      return { query: query.q, fuzzy: false, ...results };
+    }
+    return { query: query.q, fuzzy: true, ...run(fuzzyMatchExpression(terms)!) };
+  }
+
+  // DJ list entries of the DJs matching a name, best match first
+  async searchBotDJs(query: string, stationDomain?: string): Promise<BotDJ[]> {
+    const { djs } = await this.search({ q: query, station: stationDomain, types: ['djs'], limit: 50 });
+    const ranks = new Map(djs.map((hit, index) => [hit.dj.id, index]));
+
+    return (await this.getBotDJs(stationDomain))
+      .filter(dj => dj.djId !== undefined && ranks.has(dj.djId))
+      .sort((a, b) => ranks.get(a.djId!)! - ranks.get(b.djId!)!);
+  }
+
+  private searchDJIndex(match: string, terms: string[], query: SearchQuery): DJSearchHit[] {
+    let sql = `
+      SELECT djs.*, ${DJ_DETAILS}, bm25(dj_search, 3.0, 1.0, 2.0) AS rank,
+        dj_search.name || ' ' || COALESCE(dj_search.real_name, '') || ' ' || COALESCE(dj_search.aliases, '') AS search_text,
+        ${highlight('dj_search', 0)} AS name_highlight,
+        ${highlight('dj_search', 1)} AS real_name_highlight,
+        ${highlight('dj_search', 2)} AS aliases_highlight
+      FROM dj_search JOIN djs ON djs.id = dj_search.rowid
+      WHERE dj_search MATCH ?
+    `;
+    const params: any[] = [match];
+
+    if (query.station) {
+      sql += ' AND djs.id IN (SELECT dj_id FROM bot_djs WHERE station_domain = ?)';
+      params.push(query.station);
+    }
+
+    sql += ` ORDER BY rank LIMIT ${SEARCH_CANDIDATES}`;
+
+    const rows = this.db!.prepare(sql).all(...params) as any[];
+    return this.rankSearchRows(rows, terms).map(({ row, score }) => ({
+      dj: this.mapDJRow(row),
+      score,
+      highlights: this.mapHighlights({
+        name: row.name_highlight,
+        realName: row.real_name_highlight,
+        aliases: row.aliases_highlight
+      })
+    }));
+  }
+
+  private searchShowIndex(match: string, terms: string[], query: SearchQuery): ShowSearchHit[] {
+    const { sql: filters, params } = this.showSearchFilters(query);
+    const rows = this.db!.prepare(`
+      SELECT shows.*, ${SHOW_PERFORMERS}, bm25(show_search, 2.0, 3.0, 1.0) AS rank,
+        show_search.title || ' ' || show_search.dj || ' ' || show_search.style AS search_text,
+        ${highlight('show_search', 0)} AS title_highlight,
+        ${highlight('show_search', 1)} AS dj_highlight,
+        ${highlight('show_search', 2)} AS style_highlight
+      FROM show_search JOIN shows ON shows.id = show_search.rowid
+      WHERE show_search MATCH ? AND shows.status != 'cancelled'${filters}
+      ORDER BY rank, shows.start_at LIMIT ${SEARCH_CANDIDATES}
+    `).all(match, ...params) as any[];
+
+    return this.rankSearchRows(rows, terms).map(({ row, score }) => ({
+      show: this.mapShowRow(row),
+      score,
+      highlights: this.mapHighlights({
+        title: row.title_highlight,
+        dj: row.dj_highlight,
+        style: row.style_highlight
+      })
+    }));
+  }
+
+  private searchStyleIndex(match: string, terms: string[], query: SearchQuery): StyleSearchHit[] {
+    const { sql: filters, params } = this.showSearchFilters(query);
+    // Ranking functions are not available in aggregates, so the matches are grouped afterwards
+    const rows = this.db!.prepare(`
+      WITH matches AS MATERIALIZED (
+        SELECT shows.style, bm25(show_search) AS rank, ${highlight('show_search', 2)} AS style_highlight
+        FROM show_search JOIN shows ON shows.id = show_search.rowid
+        WHERE show_search MATCH ? AND shows.status != 'cancelled'${filters}
+      )
+      SELECT style, style AS search_text, COUNT(*) AS show_count, MIN(rank) AS rank, MAX(style_highlight) AS style_highlight
+      FROM matches
+      GROUP BY style
+      ORDER BY show_count DESC LIMIT ${SEARCH_CANDIDATES}
+    `).all(`style : (${match})`, ...params) as any[];
+
+    return this.rankSearchRows(rows, terms).map(({ row, score }) => ({
+      style: row.style,
+      showCount: row.show_count,
+      score,
+      highlight: row.style_highlight
+    }));
+  }
+
+  private showSearchFilters(query: SearchQuery): { sql: string; params: any[] } {
+    let sql = '';
+    const params: any[] = [];
+
+    if (query.station) {
+      sql += ' AND shows.station_domain = ?';
+      params.push(query.station);
+    }
+    if (query.from) {
+      sql += ' AND shows.day >= ?';
+      params.push(query.from);
+    }
+    if (query.to) {
+      sql += ' AND shows.day <= ?';
+      params.push(query.to);
+    }
+
+    return { sql, params };
+  }
+
+  // Drops candidates that miss a term and orders the rest by edits needed, then by index rank
+  private rankSearchRows(rows: any[], terms: string[]): { row: any; score: number }[] {
+    return rows
+      .map(row => ({ row, distance: fuzzyDistance(terms, row.search_text) }))
+      .filter((hit): hit is { row: any; distance: number } => hit.distance !== undefined)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ row, distance }) => ({ row, score: -row.rank / (1 + distance) }));
+  }
+
+  private mapHighlights<K extends string>(highlights: Record<K, string | null>): Partial<Record<K, string>> {
+    return Object.fromEntries(
+      Object.entries<string | null>(highlights).filter(([, text]) => text?.includes(HIGHLIGHT_START))
+    ) as Partial<Record<K, string>>;
+  }
+
+  // Scrape run methods
+  async createScrapeRun(trigger: ScrapeTrigger, stations: string[], dates: string[]): Promise<number> {
+    this.ensureDatabaseInitialized();
+    const stmt = this.db!.prepare(`
+      INSERT INTO scrape_runs (trigger_type, status, stations, dates, started_at)
+      VALUES (?, 'queued', ?, ?, ?)
+    `);
+    const result = stmt.run(trigger, JSON.stringify(stations), JSON.stringify(dates), new Date().toISOString());
+    return Number(result.lastInsertRowid);
+  }
+
+  async startScrapeRun(runId: number): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const stmt = this.db!.prepare(`
+      UPDATE scrape_runs SET status = 'running', started_at = ? WHERE id = ?
+    `);
+    stmt.run(new Date().toISOString(), runId);
+  }
+
+  async addScrapeRunItem(item: Omit<ScrapeRunItem, 'id'>): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const insertItem = this.db!.prepare(`
+      INSERT INTO scrape_run_items (
+        run_id, station_domain, day, url, success, http_status, duration_ms, shows_found, changes, unchanged,
+        items_matched, parser_status, warnings, error, scraped_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const updateRun = this.db!.prepare(`
+      UPDATE scrape_runs SET
+        items_total = items_total + 1,
+        items_failed = items_failed + ?,
+        items_unchanged = items_unchanged + ?,
+        shows_found = shows_found + ?
+      WHERE id = ?
+    `);
+
+    const transaction = this.db!.transaction(() => {
+      insertItem.run(
+        item.runId,
+        item.stationDomain,
+        item.day,
+        item.url,
+        item.success ? 1 : 0,
+        item.httpStatus,
+        item.durationMs,
+        item.showsFound,
+        item.changes,
+        item.unchanged ? 1 : 0,
+        item.itemsMatched,
+        item.parserStatus,
+        JSON.stringify(item.warnings),
+        item.error,
+        item.scrapedAt
+      );
+      updateRun.run(item.success ? 0 : 1, item.unchanged ? 1 : 0, item.showsFound, item.runId);
     });
 
-    transaction(shows);
+    transaction();
+  }
+
+  async finishScrapeRun(runId: number, status: Exclude<ScrapeRunStatus, 'queued' | 'running'>, error?: string): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const finishedAt = new Date();
+    const run = this.db!.prepare('SELECT started_at FROM scrape_runs WHERE id = ?').get(runId) as any;
+    const durationMs = run ? finishedAt.getTime() - new Date(run.started_at).getTime() : null;
+
+    const stmt = this.db!.prepare(`
+      UPDATE scrape_runs SET status = ?, finished_at = ?, duration_ms = ?, error = ?
+      WHERE id = ?
+    `);
+    stmt.run(status, finishedAt.toISOString(), durationMs, error, runId);
+  }
+
+  // Runs still queued or running were interrupted by a restart
+  async failInterruptedScrapeRuns(): Promise<number> {
+    this.ensureDatabaseInitialized();
+    const stmt = this.db!.prepare(`
+      UPDATE scrape_runs SET status = 'failed', finished_at = ?, error = 'Interrupted by restart'
+      WHERE status IN ('queued', 'running')
+    `);
+    return stmt.run(new Date().toISOString()).changes;
+  }
+
+  async getScrapeRuns(query: ScrapeRunQuery = {}): Promise<ScrapeRun[]> {
+    this.ensureDatabaseInitialized();
+    let sql = 'SELECT * FROM scrape_runs WHERE 1 = 1';
+    const params: any[] = [];
+
+    if (query.stationDomain) {
+      sql += ' AND id IN (SELECT run_id FROM scrape_run_items WHERE station_domain = ?)';
+      params.push(query.stationDomain);
+    }
+    if (query.status) {
+      sql += ' AND status = ?';
+      params.push(query.status);
+    }
+
+    sql += ' ORDER BY started_at DESC, id DESC LIMIT ?';
+    params.push(query.limit || 50);
+
+    const stmt = this.db!.prepare(sql);
+    const results = stmt.all(...params) as any[];
+    return results.map(row => this.mapScrapeRunRow(row));
+  }
+
+  async getScrapeRun(runId: number): Promise<ScrapeRun | null> {
+    this.ensureDatabaseInitialized();
+    const row = this.db!.prepare('SELECT * FROM scrape_runs WHERE id = ?').get(runId) as any;
+    if (!row) return null;
+
+    const items = this.db!.prepare('SELECT * FROM scrape_run_items WHERE run_id = ? ORDER BY id').all(runId) as any[];
+
+    return {
+      ...this.mapScrapeRunRow(row),
+      items: items.map(item => ({
+        id: item.id,
+        runId: item.run_id,
+        stationDomain: item.station_domain,
+        day: item.day,
+        url: item.url || undefined,
+        success: Boolean(item.success),
+        httpStatus: item.http_status ?? undefined,
+        durationMs: item.duration_ms ?? undefined,
+        showsFound: item.shows_found,
+        changes: item.changes,
+        unchanged: Boolean(item.unchanged),
+        itemsMatched: item.items_matched ?? undefined,
+        parserStatus: item.parser_status || undefined,
+        warnings: JSON.parse(item.warnings || '[]'),
+        error: item.error || undefined,
+        scrapedAt: item.scraped_at
+      }))
+    };
+  }
+
+  private mapScrapeRunRow(row: any): ScrapeRun {
+    return {
+      id: row.id,
+      trigger: row.trigger_type,
+      status: row.status,
+      stations: JSON.parse(row.stations || '[]'),
+      dates: JSON.parse(row.dates || '[]'),
+      startedAt: row.started_at,
+      finishedAt: row.finished_at || undefined,
+      durationMs: row.duration_ms ?? undefined,
+      itemsTotal: row.items_total,
+      itemsFailed: row.items_failed,
+      itemsUnchanged: row.items_unchanged,
+      showsFound: row.shows_found,
+      error: row.error || undefined
+    };
+  }
+
+  // Parser health methods
+  // Average shows per day over recent healthy scrapes; undefined without enough history
+  async getTrailingShowAverage(stationDomain: string, samples = 20, minSamples = 3): Promise<number | undefined> {
+    this.ensureDatabaseInitialized();
+    const row = this.db!.prepare(`
+      SELECT AVG(shows_found) AS average, COUNT(*) AS count FROM (
+        SELECT shows_found FROM scrape_run_items
+        WHERE station_domain = ? AND success = 1 AND parser_status = 'ok'
+        ORDER BY scraped_at DESC, id DESC LIMIT ?
+      )
+    `).get(stationDomain, samples) as any;
+
+    return row && row.count >= minSamples ? row.average : undefined;
+  }
+
+  async getParserHealth(stationDomain?: string): Promise<ParserHealth[]> {
+    this.ensureDatabaseInitialized();
+    let sql = 'SELECT * FROM parser_health';
+    const params: any[] = [];
+
+    if (stationDomain) {
+      sql += ' WHERE station_domain = ?';
+      params.push(stationDomain);
+    }
+
+    sql += ' ORDER BY station_domain';
+
+    const results = this.db!.prepare(sql).all(...params) as any[];
+    return results.map(row => ({
+      stationDomain: row.station_domain,
+      status: row.status,
+      reasons: JSON.parse(row.reasons || '[]'),
+      since: row.since,
+      checkedAt: row.checked_at
+    }));
+  }
+
+  async saveParserHealth(health: ParserHealth): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const stmt = this.db!.prepare(`
+      INSERT INTO parser_health (station_domain, status, reasons, since, checked_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(station_domain) DO UPDATE SET
+        status = excluded.status,
+        reasons = excluded.reasons,
+        since = excluded.since,
+        checked_at = excluded.checked_at
+    `);
+    stmt.run(health.stationDomain, health.status, JSON.stringify(health.reasons), health.since, health.checkedAt);
+  }
+
+  // Schedule page methods
+  async getSchedulePage(stationDomain: string, day: string): Promise<SchedulePage | null> {
+    this.ensureDatabaseInitialized();
+    const row = this.db!.prepare(
+      'SELECT * FROM schedule_pages WHERE station_domain = ? AND day = ?'
+    ).get(stationDomain, day) as any;
+    if (!row) return null;
+
+    return {
+      stationDomain: row.station_domain,
+      day: row.day,
+      url: row.url,
+      etag: row.etag || undefined,
+      lastModified: row.last_modified || undefined,
+      contentHash: row.content_hash,
+      fetchedAt: row.fetched_at,
+      checkedAt: row.checked_at
+    };
+  }
+
+  async saveSchedulePage(page: Omit<SchedulePage, 'fetchedAt' | 'checkedAt'>): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(`
+      INSERT INTO schedule_pages (station_domain, day, url, etag, last_modified, content_hash, fetched_at, checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(station_domain, day) DO UPDATE SET
+        url = excluded.url,
+        etag = excluded.etag,
+        last_modified = excluded.last_modified,
+        content_hash = excluded.content_hash,
+        fetched_at = excluded.fetched_at,
+        checked_at = excluded.checked_at
+    `);
+    stmt.run(page.stationDomain, page.day, page.url, page.etag, page.lastModified, page.contentHash, now, now);
+  }
+
+  // Unchanged pages keep their content hash; validators may still be refreshed
+  async touchSchedulePage(stationDomain: string, day: string, etag?: string, lastModified?: string): Promise<void> {
+    this.ensureDatabaseInitialized();
+    const stmt = this.db!.prepare(`
+      UPDATE schedule_pages SET
+        etag = COALESCE(?, etag),
+        last_modified = COALESCE(?, last_modified),
+        checked_at = ?
+      WHERE station_domain = ? AND day = ?
+    `);
+    stmt.run(etag, lastModified, new Date().toISOString(), stationDomain, day);
+  }
+
+  // Page snapshot methods
+  async saveSnapshot(
+    snapshot: Pick<PageSnapshot, 'stationDomain' | 'day' | 'url' | 'httpStatus'>,
+    html: string
+  ): Promise<number> {
+    this.ensureDatabaseInitialized();
+    const contentHash = createHash('sha256').update(html).digest('hex');
+
+    // Identical to the latest snapshot of the day, nothing new to keep
+    const latest = this.db!.prepare(`
+      SELECT id, content_hash FROM page_snapshots
+      WHERE station_domain = ? AND day = ?
+      ORDER BY fetched_at DESC, id DESC LIMIT 1
+    `).get(snapshot.stationDomain, snapshot.day) as any;
+    if (latest && latest.content_hash === contentHash) {
+      return latest.id;
+    }
+
+    const stmt = this.db!.prepare(`
+      INSERT INTO page_snapshots (station_domain, day, url, http_status, content_hash, size, html, fetched_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      snapshot.stationDomain,
+      snapshot.day,
+      snapshot.url,
+      snapshot.httpStatus,
+      contentHash,
+      Buffer.byteLength(html),
+      gzipSync(html),
+      new Date().toISOString()
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  async getSnapshots(query: PageSnapshotQuery = {}): Promise<PageSnapshot[]> {
+    this.ensureDatabaseInitialized();
+    let sql = `
+      SELECT id, station_domain, day, url, http_status, content_hash, size, length(html) AS compressed_size, fetched_at
+      FROM page_snapshots WHERE 1 = 1
+    `;
+    const params: any[] = [];
+
+    if (query.stationDomain) {
+      sql += ' AND station_domain = ?';
+      params.push(query.stationDomain);
+    }
+    if (query.day) {
+      sql += ' AND day = ?';
+      params.push(query.day);
+    }
+    if (query.from) {
+      sql += ' AND day >= ?';
+      params.push(query.from);
+    }
+    if (query.to) {
+      sql += ' AND day <= ?';
+      params.push(query.to);
+    }
+
+    sql += ' ORDER BY fetched_at DESC, id DESC LIMIT ?';
+    params.push(query.limit || 100);
+
+    const results = this.db!.prepare(sql).all(...params) as any[];
+    return results.map(row => this.mapSnapshotRow(row));
+  }
+
+  // Newest snapshot per station and day within the range
+  async getLatestSnapshots(query: Omit<PageSnapshotQuery, 'limit'> = {}): Promise<PageSnapshot[]> {
+    this.ensureDatabaseInitialized();
+    let sql = `
+      SELECT id, station_domain, day, url, http_status, content_hash, size, length(html) AS compressed_size, fetched_at
+      FROM page_snapshots s
+      WHERE id = (
+        SELECT id FROM page_snapshots
+        WHERE station_domain = s.station_domain AND day = s.day
+        ORDER BY fetched_at DESC, id DESC LIMIT 1
+      )
+    `;
+    const params: any[] = [];
+
+    if (query.stationDomain) {
+      sql += ' AND station_domain = ?';
+      params.push(query.stationDomain);
+    }
+    if (query.day) {
+      sql += ' AND day = ?';
+      params.push(query.day);
+    }
+    if (query.from) {
+      sql += ' AND day >= ?';
+      params.push(query.from);
+    }
+    if (query.to) {
+      sql += ' AND day <= ?';
+      params.push(query.to);
+    }
+
+    sql += ' ORDER BY station_domain, day';
+
+    const results = this.db!.prepare(sql).all(...params) as any[];
+    return results.map(row => this.mapSnapshotRow(row));
+  }
+
+  async getSnapshot(id: number): Promise<PageSnapshot | null> {
+    this.ensureDatabaseInitialized();
+    const row = this.db!.prepare(`
+      SELECT id, station_domain, day, url, http_status, content_hash, size, length(html) AS compressed_size, fetched_at
+      FROM page_snapshots WHERE id = ?
+    `).get(id) as any;
+    return row ? this.mapSnapshotRow(row) : null;
+  }
+
+  async getSnapshotHtml(id: number): Promise<string | null> {
+    this.ensureDatabaseInitialized();
+    const row = this.db!.prepare('SELECT html FROM page_snapshots WHERE id = ?').get(id) as any;
+    return row ? gunzipSync(row.html).toString('utf8') : null;
+  }
+
+  private mapSnapshotRow(row: any): PageSnapshot {
+    return {
+      id: row.id,
+      stationDomain: row.station_domain,
+      day: row.day,
+      url: row.url,
+      httpStatus: row.http_status ?? undefined,
+      contentHash: row.content_hash,
+      size: row.size,
+      compressedSize: row.compressed_size,
+      fetchedAt: row.fetched_at
+    };
   }
 
   // Cleanup methods
   async cleanupOldData(): Promise<void> {
     this.ensureDatabaseInitialized();
-    const stmt = this.db!.prepare(cleanupOldData(config.retentionDays));
-    const result = stmt.run();
-    logger.info(`Cleaned up old data: ${result.changes} records removed`);
+    let removed = 0;
+    for (const statement of cleanupOldData(config.retentionDays, config.snapshotRetentionDays)) {
+      removed += this.db!.prepare(statement).run().changes;
+    }
+    logger.info(`Cleaned up old data: ${removed} records removed`);
   }
 
   // Health check
@@ -344,17 +1497,9 @@ class DatabaseManager {
     const result = stmt.get(telegramId) as any;
     if (!result) return null;
     
-    let notificationTimes: string[];
-    try {
-      notificationTimes = JSON.parse(result.notification_times || '["2h"]');
-    } catch {
-      // Fallback for old format
-      notificationTimes = result.notification_hours_before ? [`${result.notification_hours_before}h`] : ['2h'];
-    }
-    
     return {
       telegramId: result.telegram_id,
-      notificationTimes,
+      notificationTimes: JSON.parse(result.notification_times || '["2h"]'),
       timezone: result.timezone,
       createdAt: new Date(result.created_at),
       updatedAt: new Date(result.updated_at)
@@ -365,11 +1510,11 @@ class DatabaseManager {
   async addBotFavoriteDJ(telegramId: number, stationDomain: string, djName: string): Promise<void> {
     this.ensureDatabaseInitialized();
     const stmt = this.db!.prepare(`
-      INSERT INTO bot_favorite_djs (telegram_id, station_domain, dj_name)
-      VALUES (?, ?, ?)
+      INSERT INTO bot_favorite_djs (telegram_id, station_domain, dj_name, dj_id)
+      VALUES (?, ?, ?, ?)
       ON CONFLICT(telegram_id, station_domain, dj_name) DO NOTHING
     `);
-    stmt.run(telegramId, stationDomain, djName);
+    stmt.run(telegramId, stationDomain, djName, this.djResolver()(djName));
   }
 
   async removeBotFavoriteDJ(telegramId: number, stationDomain: string, djName: string): Promise<void> {
@@ -391,47 +1536,240 @@ class DatabaseManager {
       telegramId: result.telegram_id,
       stationDomain: result.station_domain,
       djName: result.dj_name,
+      djId: result.dj_id ?? undefined,
       createdAt: new Date(result.created_at)
     }));
   }
 
   // Bot DJs methods
-  async upsertBotDJ(dj: Omit<BotDJ, 'id' | 'lastUpdated'>): Promise<void> {
+  // Team page listing of a single DJ, merged with the DJ's schedule entry if there is one
+  async upsertBotDJ(dj: Pick<BotDJ, 'stationDomain' | 'djName' | 'realName' | 'isActive'>): Promise<void> {
     this.ensureDatabaseInitialized();
-    const stmt = this.db!.prepare(`
-      INSERT INTO bot_djs (station_domain, dj_name, real_name, is_active, last_updated)
-      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
-      ON CONFLICT(station_domain, dj_name) DO UPDATE SET
-        real_name = excluded.real_name,
-        is_active = excluded.is_active,
-        last_updated = CURRENT_TIMESTAMP
+    const database = this.db!;
+    const findListing = database.prepare('SELECT id FROM bot_djs WHERE station_domain = ? AND dj_id = ?');
+    const insertDJ = database.prepare(`
+      INSERT INTO bot_djs (station_domain, dj_name, real_name, dj_id, on_team_page, is_active, last_updated)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const updateDJ = database.prepare(`
+      UPDATE bot_djs SET
+        dj_name = ?, real_name = ?, on_team_page = ?, is_active = (? OR in_schedule), last_updated = CURRENT_TIMESTAMP
+      WHERE id = ?
     `);
-    stmt.run(dj.stationDomain, dj.djName, dj.realName, dj.isActive ? 1 : 0);
+    // Team pages are the source for real names of the canonical DJ
+    const fillRealName = database.prepare('UPDATE djs SET real_name = ? WHERE id = ? AND real_name IS NULL');
+
+    database.transaction(() => {
+      const djId = this.djResolver()(dj.djName);
+      const listed = dj.isActive ? 1 : 0;
+      const existing = findListing.get(dj.stationDomain, djId) as any;
+      if (existing) {
+        updateDJ.run(dj.djName, dj.realName, listed, listed, existing.id);
+      } else {
+        insertDJ.run(dj.stationDomain, dj.djName, dj.realName, djId, listed, listed);
+      }
+      if (dj.realName) fillRealName.run(dj.realName, djId);
+    })();
   }
 
-  async getBotDJs(stationDomain?: string): Promise<BotDJ[]> {
+  async getBotDJs(stationDomain?: string, includeInactive = false): Promise<BotDJ[]> {
     this.ensureDatabaseInitialized();
-    let query = 'SELECT * FROM bot_djs WHERE is_active = 1';
+    // Show statistics cover the shows still stored (see retention)
+    let query = `
+      SELECT bot_djs.*, stats.first_show_day, stats.last_show_day, stats.show_count
+      FROM bot_djs
+      LEFT JOIN (
+        SELECT shows.station_domain, show_performers.dj_id,
+          MIN(shows.day) AS first_show_day, MAX(shows.day) AS last_show_day, COUNT(DISTINCT shows.id) AS show_count
+        FROM show_performers JOIN shows ON shows.id = show_performers.show_id
+        WHERE shows.status != 'cancelled'
+        GROUP BY shows.station_domain, show_performers.dj_id
+      ) AS stats ON stats.station_domain = bot_djs.station_domain AND stats.dj_id = bot_djs.dj_id
+      WHERE 1 = 1
+    `;
     const params: any[] = [];
     
+    if (!includeInactive) {
+      query += ' AND bot_djs.is_active = 1';
+    }
+
     if (stationDomain) {
-      query += ' AND station_domain = ?';
+      query += ' AND bot_djs.station_domain = ?';
       params.push(stationDomain);
     }
     
-    query += ' ORDER BY station_domain, dj_name';
+    query += ' ORDER BY bot_djs.station_domain, bot_djs.dj_name';
     
     const stmt = this.db!.prepare(query);
     const results = stmt.all(...params) as any[];
     
-    return results.map(result => ({
-      id: result.id,
-      stationDomain: result.station_domain,
-      djName: result.dj_name,
-      realName: result.real_name,
-      isActive: Boolean(result.is_active),
-      lastUpdated: new Date(result.last_updated)
-    }));
+    return results.map(result => this.mapBotDJRow(result));
+  }
+
+  /**
+   * Bring the DJ list of a station in line with its latest team page. Listed
+   * DJs are matched by canonical DJ and refreshed. DJs no longer listed leave
+   * the team page and are deactivated unless they still play shows. Without
+   * `apply` the changes are only reported.
+   */
+  async syncBotDJs(stationDomain: string, djs: ScrapedDJ[], apply = true): Promise<TeamChanges> {
+    this.ensureDatabaseInitialized();
+    const database = this.db!;
+
+    const insertDJ = database.prepare(`
+      INSERT INTO bot_djs (
+        station_domain, dj_name, real_name, dj_id, role, profile_url, image_url,
+        on_team_page, is_active, first_seen_at, last_seen_at, last_updated
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, 1, 1, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const updateDJ = database.prepare(`
+      UPDATE bot_djs SET
+        dj_name = ?, real_name = ?, dj_id = ?, role = ?, profile_url = ?, image_url = ?, on_team_page = 1, is_active = 1,
+        first_seen_at = COALESCE(first_seen_at, ?), last_seen_at = ?, last_updated = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+    const leaveTeamPage = database.prepare(`
+      UPDATE bot_djs SET on_team_page = 0, is_active = in_schedule, last_updated = CURRENT_TIMESTAMP WHERE id = ?
+    `);
+    const deleteDJ = database.prepare('DELETE FROM bot_djs WHERE id = ?');
+    const fillRealName = database.prepare('UPDATE djs SET real_name = ? WHERE id = ? AND real_name IS NULL');
+    const findAlias = database.prepare('SELECT dj_id FROM dj_aliases WHERE normalized_name = ?');
+
+    // Canonical DJ of a name without creating one, dry runs must not write
+    const identify = (name: string, djId?: number): string => {
+      const id = djId ?? (findAlias.get(normalizePerformerName(name)) as any)?.dj_id;
+      return id ? `dj:${id}` : `name:${normalizePerformerName(name)}`;
+    };
+
+    return database.transaction((): TeamChanges => {
+      // Spellings stored before names were normalized may list a DJ twice; the active row wins
+      const existing = new Map<string, BotDJ>();
+      const duplicates: BotDJ[] = [];
+      for (const row of database.prepare('SELECT * FROM bot_djs WHERE station_domain = ?').all(stationDomain) as any[]) {
+        const stored = this.mapBotDJRow(row);
+        const key = identify(stored.djName, stored.djId);
+        const other = existing.get(key);
+        if (!other) {
+          existing.set(key, stored);
+        } else if (stored.isActive && !other.isActive) {
+          duplicates.push(other);
+          existing.set(key, stored);
+        } else {
+          duplicates.push(stored);
+        }
+      }
+      if (apply) {
+        duplicates.forEach(duplicate => deleteDJ.run(duplicate.id));
+      }
+
+      const changes: TeamChanges = { added: [], reactivated: [], updated: [], deactivated: [] };
+      const seenAt = new Date().toISOString();
+      const listed = new Set<string>();
+      const resolveDJ = this.djResolver();
+
+      for (const dj of djs) {
+        const key = identify(dj.djName);
+        if (listed.has(key)) continue; // listed in several sections
+        listed.add(key);
+
+        const stored = existing.get(key);
+        if (!stored) {
+          changes.added.push(dj.djName);
+        } else if (!stored.isActive) {
+          changes.reactivated.push(dj.djName);
+        } else if (!stored.onTeamPage) {
+          changes.added.push(dj.djName); // known from the schedule only
+        } else if (
+          stored.djName !== dj.djName || (stored.realName || undefined) !== dj.realName || stored.role !== dj.role ||
+          stored.profileUrl !== dj.profileUrl || stored.imageUrl !== dj.imageUrl
+        ) {
+          changes.updated.push(dj.djName);
+        }
+        if (!apply) continue;
+
+        const djId = resolveDJ(dj.djName);
+        const values = [dj.djName, dj.realName ?? null, djId, dj.role ?? null, dj.profileUrl ?? null, dj.imageUrl ?? null];
+        if (stored) {
+          updateDJ.run(...values, seenAt, seenAt, stored.id);
+        } else {
+          insertDJ.run(stationDomain, ...values, seenAt, seenAt);
+        }
+        if (dj.realName) fillRealName.run(dj.realName, djId);
+      }
+
+      for (const [key, stored] of existing) {
+        if (listed.has(key) || !stored.onTeamPage) continue;
+        if (!stored.inSchedule) changes.deactivated.push(stored.djName);
+        if (apply) leaveTeamPage.run(stored.id);
+      }
+
+      return changes;
+    })();
+  }
+
+  /**
+   * Add the performers of the stored shows of a station to its DJ list, so
+   * guest DJs can be followed too, and update who still plays shows.
+   */
+  private refreshScheduleDJs(stationDomain: string): void {
+    const database = this.db!;
+    const performers = database.prepare(`
+      SELECT show_performers.dj_id, show_performers.name FROM show_performers
+      JOIN shows ON shows.id = show_performers.show_id
+      WHERE shows.station_domain = ? AND shows.status != 'cancelled' AND show_performers.dj_id IS NOT NULL
+        AND show_performers.dj_id NOT IN (SELECT dj_id FROM bot_djs WHERE station_domain = ? AND dj_id IS NOT NULL)
+      ORDER BY shows.start_at DESC
+    `).all(stationDomain, stationDomain) as any[];
+
+    // Latest spelling on the station
+    const insertDJ = database.prepare(`
+      INSERT INTO bot_djs (station_domain, dj_name, dj_id, on_team_page, in_schedule, is_active, last_updated)
+      VALUES (?, ?, ?, 0, 1, 1, CURRENT_TIMESTAMP)
+      ON CONFLICT(station_domain, dj_name) DO NOTHING
+    `);
+    const added = new Set<number>();
+    for (const performer of performers) {
+      if (added.has(performer.dj_id)) continue;
+      added.add(performer.dj_id);
+      insertDJ.run(stationDomain, performer.name, performer.dj_id);
+    }
+
+    // Listings without a DJ are never in the schedule; a bare IN would give NULL for them
+    database.prepare(`
+      UPDATE bot_djs SET in_schedule = COALESCE(dj_id IN (
+        SELECT show_performers.dj_id FROM show_performers
+        JOIN shows ON shows.id = show_performers.show_id
+        WHERE shows.station_domain = ? AND shows.status != 'cancelled' AND show_performers.dj_id IS NOT NULL
+      ), 0)
+      WHERE station_domain = ?
+    `).run(stationDomain, stationDomain);
+    database.prepare(`
+      UPDATE bot_djs SET is_active = (on_team_page OR in_schedule), last_updated = CURRENT_TIMESTAMP
+      WHERE station_domain = ? AND is_active != (on_team_page OR in_schedule)
+    `).run(stationDomain);
+  }
+
+  private mapBotDJRow(row: any): BotDJ {
+    return {
+      id: row.id,
+      stationDomain: row.station_domain,
+      djName: row.dj_name,
+      realName: row.real_name,
+      djId: row.dj_id ?? undefined,
+      role: row.role || undefined,
+      profileUrl: row.profile_url || undefined,
+      imageUrl: row.image_url || undefined,
+      onTeamPage: Boolean(row.on_team_page),
+      inSchedule: Boolean(row.in_schedule),
+      firstShowDay: row.first_show_day || undefined,
+      lastShowDay: row.last_show_day || undefined,
+      showCount: row.show_count ?? 0,
+      isActive: Boolean(row.is_active),
+      firstSeenAt: row.first_seen_at ? new Date(row.first_seen_at) : undefined,
+      lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : undefined,
+      lastUpdated: new Date(row.last_updated)
+    };
   }
 
   // Bot Notifications methods
@@ -472,6 +1810,211 @@ class DatabaseManager {
     }));
   }
 
+  // Backup methods
+  async backupTo(path: string): Promise<void> {
+    this.ensureDatabaseInitialized();
+    await this.db!.backup(path);
+
+    // The copy keeps the WAL flag of the live database; make it a single self-contained file
+    const backup = new Database(path);
+    try {
+      backup.pragma('journal_mode = DELETE');
+    } finally {
+      backup.close();
+    }
+  }
+
+  /**
+   * Replace the database with a backup and reopen it. Older backups are
+   * migrated like any database at startup.
+   */
+  async restoreFrom(path: string): Promise<void> {
+    const backup = new Database(path, { readonly: true, fileMustExist: true });
+    try {
+      const check = backup.pragma('quick_check', { simple: true });
+      if (check !== 'ok') {
+        throw new Error(`Backup is damaged: ${check}`);
+      }
+    } finally {
+      backup.close();
+    }
+
+    const dbPath = join(config.dataDir, 'schedule.db');
+    this.close();
+    this.db = null;
+    this.isInitialized = false;
+    this.initializationError = null;
+    rmSync(`${dbPath}-wal`, { force: true });
+    rmSync(`${dbPath}-shm`, { force: true });
+    copyFileSync(path, dbPath);
+
+    this.initializeDatabase();
+    if (this.initializationError) {
+      throw this.initializationError;
+    }
+  }
+
+  async exportData(): Promise<ExportData> {
+    this.ensureDatabaseInitialized();
+    const database = this.db!;
+
+    const stations = (database.prepare('SELECT * FROM stations ORDER BY domain').all() as any[])
+      .map(row => {
+        const { lastScraped, ...station } = this.mapStationRow(row);
+        return station;
+      });
+    const shows = (database.prepare('SELECT * FROM shows ORDER BY station_domain, start_at').all() as any[])
+      .map(row => {
+        const { id, performers, createdAt, updatedAt, ...show } = this.mapShowRow(row);
+        return show;
+      });
+    const djs = (database.prepare(`SELECT *, ${DJ_DETAILS} FROM djs ORDER BY id`).all() as any[])
+      .map(row => {
+        const { id, name, realName, aliases } = this.mapDJRow(row);
+        return { id, name, realName, aliases };
+      });
+    const botUsers = (database.prepare('SELECT * FROM bot_users ORDER BY telegram_id').all() as any[])
+      .map(row => ({
+        telegramId: row.telegram_id,
+        username: row.username ?? undefined,
+        firstName: row.first_name ?? undefined,
+        lastName: row.last_name ?? undefined,
+        languageCode: row.language_code,
+        isActive: Boolean(row.is_active)
+      }));
+    const preferences = (database.prepare('SELECT * FROM bot_user_preferences ORDER BY telegram_id').all() as any[])
+      .map(row => ({
+        telegramId: row.telegram_id,
+        notificationTimes: JSON.parse(row.notification_times || '["2h"]'),
+        timezone: row.timezone
+      }));
+    const favorites = (database.prepare('SELECT * FROM bot_favorite_djs ORDER BY telegram_id, station_domain, dj_name').all() as any[])
+      .map(row => ({
+        telegramId: row.telegram_id,
+        stationDomain: row.station_domain,
+        djName: row.dj_name,
+        djId: row.dj_id ?? undefined
+      }));
+
+    return {
+      format: 'wao-base-export',
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      stations,
+      shows,
+      djs,
+      botUsers,
+      preferences,
+      favorites
+    };
+  }
+
+  /**
+   * Merge an export into this database in one transaction. Existing rows win,
+   * DJs are matched by their aliases.
+   */
+  async importData(data: ExportData): Promise<ImportResult> {
+    this.ensureDatabaseInitialized();
+    const database = this.db!;
+    const result: ImportResult = { stations: 0, shows: 0, djs: 0, botUsers: 0, preferences: 0, favorites: 0 };
+
+    const insertStation = database.prepare(`
+      INSERT INTO stations (domain, name, enabled, days_back, days_forward, cron_schedule)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(domain) DO NOTHING
+    `);
+    const findAlias = database.prepare('SELECT dj_id FROM dj_aliases WHERE normalized_name = ?');
+    const insertDJ = database.prepare('INSERT INTO djs (name, real_name) VALUES (?, ?)');
+    const insertAlias = database.prepare(
+      'INSERT INTO dj_aliases (normalized_name, dj_id, name) VALUES (?, ?, ?) ON CONFLICT(normalized_name) DO NOTHING'
+    );
+    const insertShow = database.prepare(`
+      INSERT OR IGNORE INTO shows (
+        day, station_domain, dj, title, start_time, end_time, start_at, end_at, style,
+        description, image_url, show_url, dj_url, status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertDay = database.prepare('INSERT OR IGNORE INTO days (station_domain, day) VALUES (?, ?)');
+    const insertBotUser = database.prepare(`
+      INSERT INTO bot_users (telegram_id, username, first_name, last_name, language_code, is_active)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(telegram_id) DO NOTHING
+    `);
+    const insertPreferences = database.prepare(`
+      INSERT INTO bot_user_preferences (telegram_id, notification_times, timezone)
+      VALUES (?, ?, ?)
+      ON CONFLICT(telegram_id) DO NOTHING
+    `);
+    const insertFavorite = database.prepare(`
+      INSERT INTO bot_favorite_djs (telegram_id, station_domain, dj_name, dj_id)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(telegram_id, station_domain, dj_name) DO NOTHING
+    `);
+
+    database.transaction(() => {
+      for (const station of data.stations) {
+        result.stations += insertStation.run(
+          station.domain, station.name, station.enabled ? 1 : 0,
+          station.daysBack, station.daysForward, station.cronSchedule ?? null
+        ).changes;
+      }
+
+      // Exported DJ ids mapped to the DJs of this database
+      const djIds = new Map<number, number>();
+      for (const dj of data.djs) {
+        const names = [dj.name, ...dj.aliases].map(name => name.replace(/\s+/g, ' ').trim());
+        const existing = names
+          .map(name => findAlias.get(normalizePerformerName(name)) as any)
+          .find(alias => alias);
+
+        let djId = existing?.dj_id;
+        if (!djId) {
+          djId = Number(insertDJ.run(dj.name, dj.realName ?? null).lastInsertRowid);
+          result.djs++;
+        }
+        names.forEach(name => insertAlias.run(normalizePerformerName(name), djId, name));
+        djIds.set(dj.id, djId);
+      }
+
+      const replacePerformers = this.performersWriter();
+      for (const show of data.shows) {
+        const { changes, lastInsertRowid } = insertShow.run(
+          show.day, show.stationDomain, show.dj, show.title, show.start, show.end, show.startAt, show.endAt,
+          show.style, show.description ?? null, show.imageUrl ?? null, show.showUrl ?? null, show.djUrl ?? null,
+          show.status ?? 'scheduled'
+        );
+        if (changes > 0) {
+          replacePerformers(Number(lastInsertRowid), show.dj);
+          insertDay.run(show.stationDomain, show.day);
+          result.shows++;
+        }
+      }
+
+      for (const user of data.botUsers) {
+        result.botUsers += insertBotUser.run(
+          user.telegramId, user.username ?? null, user.firstName ?? null, user.lastName ?? null,
+          user.languageCode, user.isActive ? 1 : 0
+        ).changes;
+      }
+      for (const preferences of data.preferences) {
+        result.preferences += insertPreferences.run(
+          preferences.telegramId, JSON.stringify(preferences.notificationTimes), preferences.timezone
+        ).changes;
+      }
+
+      const resolveDJ = this.djResolver();
+      for (const favorite of data.favorites) {
+        const djId = (favorite.djId !== undefined ? djIds.get(favorite.djId) : undefined) ?? resolveDJ(favorite.djName);
+        result.favorites += insertFavorite.run(favorite.telegramId, favorite.stationDomain, favorite.djName, djId).changes;
+      }
+
+      new Set(data.shows.map(show => show.stationDomain)).forEach(domain => this.refreshScheduleDJs(domain));
+    })();
+
+    logger.info(`Imported ${Object.entries(result).map(([section, count]) => `${count} ${section}`).join(', ')}`);
+    return result;
+  }
+
   close(): void {
     if (this.db) {
       this.db.close();
@@ -0,0 +1,175 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import { addedColumns, createAddedIndexes, createSearchIndexes, createTables } from './schema';
+import { stationRegistry } from '../stations';
+import { addDays, timeToMinutes, zonedTimeToDate } from '../utils/date-time';
+import { logger } from '../utils/logger';
+import { MigrationResult, MigrationStatus } from '../types';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * Numbered schema migrations, applied in order at startup. Each one runs in
+ * its own transaction; never change a migration that was released, add a new
+ * one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    // Databases from before versioned migrations are brought to the same state as new ones
+    version: 1,
+    name: 'baseline',
+    up: db => {
+      db.exec(createTables);
+      for (const { table, column, definition, backfill } of addedColumns) {
+        const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+        if (!columns.some(col => col.name === column)) {
+          db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+          if (backfill) db.exec(backfill);
+        }
+      }
+      backfillShowTimestamps(db);
+      db.exec(createAddedIndexes);
+    }
+  },
+  {
+    // Old rows hold a plain "2h" or only the former notification_hours_before column
+    version: 2,
+    name: 'notification times as JSON',
+    up: db => {
+      const columns = db.prepare('PRAGMA table_info(bot_user_preferences)').all() as any[];
+      if (columns.some(col => col.name === 'notification_hours_before')) {
+        db.exec(`
+          UPDATE bot_user_preferences SET notification_times = json_array(notification_hours_before || 'h')
+          WHERE notification_hours_before IS NOT NULL AND (notification_times IS NULL OR json_valid(notification_times) = 0)
+        `);
+        db.exec('ALTER TABLE bot_user_preferences DROP COLUMN notification_hours_before');
+      }
+      db.exec(`
+        UPDATE bot_user_preferences SET notification_times = json_array(COALESCE(notification_times, '2h'))
+        WHERE notification_times IS NULL OR json_valid(notification_times) = 0
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: 'full-text search',
+    up: db => {
+      db.exec(createSearchIndexes);
+      db.exec(`
+        INSERT INTO show_search (show_search) VALUES ('rebuild');
+        INSERT INTO dj_search (rowid, name, real_name, aliases)
+        SELECT id, name, real_name, (SELECT group_concat(name, ' ') FROM dj_aliases WHERE dj_id = djs.id) FROM djs;
+      `);
+    }
+  }
+];
+
+export const latestVersion = (): number => Math.max(...migrations.map(migration => migration.version));
+
+export function getSchemaVersion(db: Database.Database): number {
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as any;
+  return row?.version ?? 0;
+}
+
+/**
+ * Bring the database to the latest version. Databases that already hold
+ * tables are copied to `backupDir` first.
+ */
+export function runMigrations(db: Database.Database, backupDir: string): MigrationResult {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME NOT NULL
+    )
+  `);
+
+  const fromVersion = getSchemaVersion(db);
+  const pending = migrations.filter(migration => migration.version > fromVersion);
+  if (pending.length === 0) {
+    return { fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  let backupPath: string | undefined;
+  const tables = db.prepare(`
+    SELECT COUNT(*) AS count FROM sqlite_master
+    WHERE type = 'table' AND name != 'schema_version' AND name NOT LIKE 'sqlite_%'
+  `).get() as any;
+  if (tables.count > 0) {
+    mkdirSync(backupDir, { recursive: true });
+    backupPath = join(backupDir, `schedule-v${fromVersion}-${new Date().toISOString().replace(/[:.]/g, '-')}.db`);
+    db.prepare('VACUUM INTO ?').run(backupPath);
+    logger.info(`Backed up database to ${backupPath} before migrating`);
+  }
+
+  const record = db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+  for (const migration of pending) {
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+      logger.info(`Applied migration ${migration.version}: ${migration.name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${message}` +
+        (backupPath ? `. The database before the upgrade is at ${backupPath}` : '')
+      );
+    }
+  }
+
+  return {
+    fromVersion,
+    toVersion: getSchemaVersion(db),
+    applied: pending.map(({ version, name }) => ({ version, name })),
+    backupPath
+  };
+}
+
+export function getMigrationStatus(db: Database.Database): MigrationStatus {
+  const applied = (db.prepare('SELECT version, name, applied_at FROM schema_version ORDER BY version').all() as any[])
+    .map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+  const currentVersion = getSchemaVersion(db);
+
+  return {
+    currentVersion,
+    latestVersion: latestVersion(),
+    applied,
+    pending: migrations
+      .filter(migration => migration.version > currentVersion)
+      .map(({ version, name }) => ({ version, name }))
+  };
+}
+
+// Shows stored before absolute timestamps existed
+function backfillShowTimestamps(db: Database.Database): void {
+  const rows = db.prepare(
+    'SELECT id, day, station_domain, start_time, end_time FROM shows WHERE start_at IS NULL OR end_at IS NULL'
+  ).all() as any[];
+  if (rows.length === 0) return;
+
+  const update = db.prepare('UPDATE shows SET start_at = ?, end_at = ? WHERE id = ?');
+  for (const row of rows) {
+    const timezone = stationRegistry.resolve(row.station_domain).timezone;
+    const endDay = timeToMinutes(row.end_time) <= timeToMinutes(row.start_time) ? addDays(row.day, 1) : row.day;
+    update.run(
+      zonedTimeToDate(row.day, row.start_time, timezone).toISOString(),
+      zonedTimeToDate(endDay, row.end_time, timezone).toISOString(),
+      row.id
+    );
+  }
+
+  // Legacy rows may only differ in end time; keep the oldest before the unique index is created
+  db.exec(`
+    DELETE FROM shows WHERE id NOT IN (
+      SELECT MIN(id) FROM shows GROUP BY station_domain, start_at, dj, title
+    )
+  `);
+  logger.info(`Backfilled timestamps for ${rows.length} shows`);
+}
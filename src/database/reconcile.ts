@@ -0,0 +1,111 @@
+import { Show, ShowMetadata, ShowValues } from '../types';
+
+export const trackedFields: (keyof ShowValues)[] = ['dj', 'title', 'start', 'end', 'startAt', 'endAt', 'style'];
+
+export const metadataFields: (keyof ShowMetadata)[] = ['description', 'imageUrl', 'showUrl', 'djUrl'];
+
+export interface ShowUpdate {
+  before: Show;
+  after: Show;
+  changedFields: (keyof ShowValues)[];
+}
+
+export interface ShowDiff {
+  added: Show[];
+  changed: ShowUpdate[];
+  restored: ShowUpdate[];
+  cancelled: Show[];
+  unchanged: Show[];
+  // Unchanged shows whose metadata (description, links, ...) differs
+  refreshed: ShowUpdate[];
+}
+
+export function getShowValues(show: Show): ShowValues {
+  return {
+    dj: show.dj,
+    title: show.title,
+    start: show.start,
+    end: show.end,
+    startAt: show.startAt,
+    endAt: show.endAt,
+    style: show.style
+  };
+}
+
+function getChangedFields(before: Show, after: Show): (keyof ShowValues)[] {
+  return trackedFields.filter(field => before[field] !== after[field]);
+}
+
+function hasMetadataChanged(before: Show, after: Show): boolean {
+  return metadataFields.some(field => (before[field] || undefined) !== (after[field] || undefined));
+}
+
+function takeMatch(pool: Show[], predicate: (show: Show) => boolean): Show | undefined {
+  const index = pool.findIndex(predicate);
+  if (index === -1) return undefined;
+  return pool.splice(index, 1)[0];
+}
+
+/**
+ * Compare the stored shows of a day with a fresh scrape of the same day.
+ *
+ * Shows are matched by start/DJ/title first, then by DJ/title (moved shows)
+ * and finally by start time (swapped DJ or renamed show). Stored shows that
+ * find no partner are cancelled; scraped shows without partner are new.
+ * Metadata never counts as a change, it is only refreshed.
+ */
+export function diffShows(existing: Show[], incoming: Show[]): ShowDiff {
+  const diff: ShowDiff = { added: [], changed: [], restored: [], cancelled: [], unchanged: [], refreshed: [] };
+  const active = existing.filter(show => show.status !== 'cancelled');
+  const cancelled = existing.filter(show => show.status === 'cancelled');
+  let remaining = [...incoming];
+
+  const sameSlot = (a: Show, b: Show) => a.startAt === b.startAt && a.dj === b.dj && a.title === b.title;
+
+  // Exact matches, possibly with a new end time or style
+  remaining = remaining.filter(show => {
+    const match = takeMatch(active, stored => sameSlot(stored, show));
+    if (!match) return true;
+
+    const changedFields = getChangedFields(match, show);
+    if (changedFields.length > 0) {
+      diff.changed.push({ before: match, after: show, changedFields });
+    } else {
+      diff.unchanged.push(match);
+      if (hasMetadataChanged(match, show)) {
+        diff.refreshed.push({ before: match, after: show, changedFields: [] });
+      }
+    }
+    return false;
+  });
+
+  // Shows that reappeared after being cancelled
+  remaining = remaining.filter(show => {
+    const match = takeMatch(cancelled, stored => sameSlot(stored, show));
+    if (!match) return true;
+
+    diff.restored.push({ before: match, after: show, changedFields: getChangedFields(match, show) });
+    return false;
+  });
+
+  // Moved shows, then DJ swaps and renames in the same slot
+  const matchers: ((stored: Show, show: Show) => boolean)[] = [
+    (stored, show) => stored.dj === show.dj && stored.title === show.title,
+    (stored, show) => stored.startAt === show.startAt
+  ];
+
+  for (const matcher of matchers) {
+    remaining = remaining.filter(show => {
+      const match = takeMatch(active, stored => matcher(stored, show));
+      if (!match) return true;
+
+      diff.changed.push({ before: match, after: show, changedFields: getChangedFields(match, show) });
+      return false;
+    });
+  }
+
+  diff.added = remaining;
+  diff.cancelled = active;
+
+  return diff;
+}
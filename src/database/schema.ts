@@ -4,11 +4,21 @@ CREATE TABLE IF NOT EXISTS stations (
   domain TEXT PRIMARY KEY,
   name TEXT,
   enabled BOOLEAN DEFAULT 1,
+  days_back INTEGER NOT NULL DEFAULT 1, -- Scrape horizon around today
+  days_forward INTEGER NOT NULL DEFAULT 5,
+  cron_schedule TEXT, -- NULL: global cron schedule
   last_scraped DATETIME,
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Settings changed via the API, layered over the environment
+CREATE TABLE IF NOT EXISTS settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL, -- JSON
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Days table
 CREATE TABLE IF NOT EXISTS days (
   station_domain TEXT NOT NULL,
@@ -27,18 +37,153 @@ CREATE TABLE IF NOT EXISTS shows (
   title TEXT NOT NULL,
   start_time TEXT NOT NULL, -- HH:MM
   end_time TEXT NOT NULL, -- HH:MM
+  start_at TEXT, -- ISO timestamp
+  end_at TEXT, -- ISO timestamp, rolls over to the next day for overnight shows
   style TEXT NOT NULL,
+  description TEXT,
+  image_url TEXT, -- cover image
+  show_url TEXT, -- show detail page
+  dj_url TEXT, -- DJ profile page
+  status TEXT NOT NULL DEFAULT 'scheduled', -- scheduled, changed, cancelled
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME,
   UNIQUE(day, station_domain, dj, title, start_time, end_time),
   FOREIGN KEY (station_domain) REFERENCES stations(domain) ON DELETE CASCADE
 );
 
+-- Canonical DJs: one artist across stations and spellings
+CREATE TABLE IF NOT EXISTS djs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL, -- display name
+  real_name TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Name variants of a DJ, each normalized name belongs to exactly one DJ
+CREATE TABLE IF NOT EXISTS dj_aliases (
+  normalized_name TEXT PRIMARY KEY, -- lowercase, without "DJ " prefix
+  dj_id INTEGER NOT NULL,
+  name TEXT NOT NULL, -- spelling as first seen
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (dj_id) REFERENCES djs(id) ON DELETE CASCADE
+);
+
+-- Performers of a show, split from its DJ field (B2B sets, guest lineups)
+CREATE TABLE IF NOT EXISTS show_performers (
+  show_id INTEGER NOT NULL,
+  position INTEGER NOT NULL, -- order in the DJ field
+  name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL, -- lowercase, without "DJ " prefix
+  dj_id INTEGER REFERENCES djs(id) ON DELETE SET NULL,
+  PRIMARY KEY (show_id, position),
+  FOREIGN KEY (show_id) REFERENCES shows(id) ON DELETE CASCADE
+);
+
+-- Show changes table (detected when a day is scraped again)
+CREATE TABLE IF NOT EXISTS show_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  show_id INTEGER NOT NULL,
+  station_domain TEXT NOT NULL,
+  day TEXT NOT NULL, -- ISO YYYY-MM-DD
+  change_type TEXT NOT NULL, -- added, changed, cancelled
+  changed_fields TEXT NOT NULL DEFAULT '[]', -- JSON array of field names
+  old_values TEXT, -- JSON
+  new_values TEXT, -- JSON
+  detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (show_id) REFERENCES shows(id) ON DELETE CASCADE,
+  FOREIGN KEY (station_domain) REFERENCES stations(domain) ON DELETE CASCADE
+);
+
+-- Scrape run history
+CREATE TABLE IF NOT EXISTS scrape_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trigger_type TEXT NOT NULL, -- cron, manual, api
+  status TEXT NOT NULL DEFAULT 'queued', -- queued, running, completed, failed, cancelled
+  stations TEXT NOT NULL DEFAULT '[]', -- JSON array of station domains
+  dates TEXT NOT NULL DEFAULT '[]', -- JSON array of ISO days
+  started_at DATETIME NOT NULL, -- queue time until the run starts
+  finished_at DATETIME,
+  duration_ms INTEGER,
+  items_total INTEGER NOT NULL DEFAULT 0,
+  items_failed INTEGER NOT NULL DEFAULT 0,
+  items_unchanged INTEGER NOT NULL DEFAULT 0,
+  shows_found INTEGER NOT NULL DEFAULT 0,
+  error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS scrape_run_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER NOT NULL,
+  station_domain TEXT NOT NULL,
+  day TEXT NOT NULL, -- ISO YYYY-MM-DD
+  url TEXT,
+  success BOOLEAN NOT NULL,
+  http_status INTEGER,
+  duration_ms INTEGER,
+  shows_found INTEGER NOT NULL DEFAULT 0,
+  changes INTEGER NOT NULL DEFAULT 0,
+  unchanged BOOLEAN NOT NULL DEFAULT 0, -- page not modified, shows not parsed
+  items_matched INTEGER, -- schedule items found in the markup
+  parser_status TEXT, -- ok, degraded; NULL when the page was not parsed
+  warnings TEXT NOT NULL DEFAULT '[]', -- JSON array of parser warnings
+  error TEXT,
+  scraped_at DATETIME NOT NULL,
+  FOREIGN KEY (run_id) REFERENCES scrape_runs(id) ON DELETE CASCADE
+);
+
+-- HTTP validators and content hash of the last processed schedule page
+CREATE TABLE IF NOT EXISTS schedule_pages (
+  station_domain TEXT NOT NULL,
+  day TEXT NOT NULL, -- ISO YYYY-MM-DD
+  url TEXT NOT NULL,
+  etag TEXT,
+  last_modified TEXT,
+  content_hash TEXT NOT NULL, -- SHA-256 of the schedule part of the page
+  fetched_at DATETIME NOT NULL, -- last time the content was processed
+  checked_at DATETIME NOT NULL, -- last time the page was requested
+  PRIMARY KEY (station_domain, day),
+  FOREIGN KEY (station_domain) REFERENCES stations(domain) ON DELETE CASCADE
+);
+
+-- Current parser health per station
+CREATE TABLE IF NOT EXISTS parser_health (
+  station_domain TEXT PRIMARY KEY,
+  status TEXT NOT NULL, -- ok, degraded
+  reasons TEXT NOT NULL DEFAULT '[]', -- JSON array
+  since DATETIME NOT NULL, -- last status change
+  checked_at DATETIME NOT NULL,
+  FOREIGN KEY (station_domain) REFERENCES stations(domain) ON DELETE CASCADE
+);
+
+-- Archive of fetched schedule pages for re-parsing
+CREATE TABLE IF NOT EXISTS page_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  station_domain TEXT NOT NULL,
+  day TEXT NOT NULL, -- ISO YYYY-MM-DD
+  url TEXT NOT NULL,
+  http_status INTEGER,
+  content_hash TEXT NOT NULL, -- SHA-256 of the raw HTML
+  size INTEGER NOT NULL, -- uncompressed bytes
+  html BLOB NOT NULL, -- gzip compressed
+  fetched_at DATETIME NOT NULL,
+  FOREIGN KEY (station_domain) REFERENCES stations(domain) ON DELETE CASCADE
+);
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_shows_day ON shows(day);
 CREATE INDEX IF NOT EXISTS idx_shows_station ON shows(station_domain);
 CREATE INDEX IF NOT EXISTS idx_shows_day_station ON shows(day, station_domain);
 CREATE INDEX IF NOT EXISTS idx_days_station ON days(station_domain);
 CREATE INDEX IF NOT EXISTS idx_days_day ON days(day);
+CREATE INDEX IF NOT EXISTS idx_show_performers_name ON show_performers(normalized_name);
+CREATE INDEX IF NOT EXISTS idx_show_changes_station_detected ON show_changes(station_domain, detected_at);
+CREATE INDEX IF NOT EXISTS idx_show_changes_show ON show_changes(show_id);
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_started ON scrape_runs(started_at);
+CREATE INDEX IF NOT EXISTS idx_scrape_run_items_run ON scrape_run_items(run_id);
+CREATE INDEX IF NOT EXISTS idx_scrape_run_items_station ON scrape_run_items(station_domain);
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_station_day ON page_snapshots(station_domain, day, fetched_at);
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_fetched ON page_snapshots(fetched_at);
 
 -- Bot tables
 CREATE TABLE IF NOT EXISTS bot_users (
@@ -54,7 +199,7 @@ CREATE TABLE IF NOT EXISTS bot_users (
 
 CREATE TABLE IF NOT EXISTS bot_user_preferences (
   telegram_id INTEGER NOT NULL,
-  notification_times TEXT DEFAULT '2h', -- JSON array of notification times
+  notification_times TEXT DEFAULT '["2h"]', -- JSON array of notification times
   timezone TEXT DEFAULT 'Europe/Berlin',
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -67,6 +212,7 @@ CREATE TABLE IF NOT EXISTS bot_favorite_djs (
   telegram_id INTEGER NOT NULL,
   station_domain TEXT NOT NULL,
   dj_name TEXT NOT NULL,
+  dj_id INTEGER REFERENCES djs(id) ON DELETE SET NULL, -- followed on every station
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(telegram_id, station_domain, dj_name),
   FOREIGN KEY (telegram_id) REFERENCES bot_users(telegram_id) ON DELETE CASCADE
@@ -77,7 +223,15 @@ CREATE TABLE IF NOT EXISTS bot_djs (
   station_domain TEXT NOT NULL,
   dj_name TEXT NOT NULL,
   real_name TEXT,
-  is_active BOOLEAN DEFAULT 1,
+  dj_id INTEGER REFERENCES djs(id) ON DELETE SET NULL,
+  role TEXT, -- team page section, e.g. Resident DJs
+  profile_url TEXT,
+  image_url TEXT,
+  on_team_page BOOLEAN NOT NULL DEFAULT 0, -- listed on the latest team page
+  in_schedule BOOLEAN NOT NULL DEFAULT 0, -- performs in stored shows of the station
+  is_active BOOLEAN DEFAULT 1, -- on the team page or in the schedule
+  first_seen_at DATETIME, -- on the team page
+  last_seen_at DATETIME,
   last_updated DATETIME DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(station_domain, dj_name)
 );
@@ -103,10 +257,117 @@ CREATE INDEX IF NOT EXISTS idx_bot_notifications_sent_user ON bot_notifications_
 CREATE INDEX IF NOT EXISTS idx_bot_notifications_sent_show ON bot_notifications_sent(show_id);
 `;
 
-export const cleanupOldData = (retentionDays: number) => `
-DELETE FROM shows 
-WHERE day < date('now', '-${retentionDays} days');
+// Columns added before migrations were versioned. The baseline migration adds
+// them to older databases; `backfill` runs once, right after the column was added.
+// Later schema changes are new migrations in ./migrations.
+export const addedColumns: { table: string; column: string; definition: string; backfill?: string }[] = [
+  { table: 'stations', column: 'days_back', definition: 'INTEGER NOT NULL DEFAULT 1' },
+  { table: 'stations', column: 'days_forward', definition: 'INTEGER NOT NULL DEFAULT 5' },
+  { table: 'stations', column: 'cron_schedule', definition: 'TEXT' },
+  { table: 'shows', column: 'start_at', definition: 'TEXT' },
+  { table: 'shows', column: 'end_at', definition: 'TEXT' },
+  { table: 'shows', column: 'status', definition: "TEXT NOT NULL DEFAULT 'scheduled'" },
+  { table: 'shows', column: 'updated_at', definition: 'DATETIME' },
+  { table: 'shows', column: 'description', definition: 'TEXT' },
+  { table: 'shows', column: 'image_url', definition: 'TEXT' },
+  { table: 'shows', column: 'show_url', definition: 'TEXT' },
+  { table: 'shows', column: 'dj_url', definition: 'TEXT' },
+  { table: 'show_performers', column: 'dj_id', definition: 'INTEGER REFERENCES djs(id) ON DELETE SET NULL' },
+  { table: 'bot_djs', column: 'dj_id', definition: 'INTEGER REFERENCES djs(id) ON DELETE SET NULL' },
+  { table: 'bot_djs', column: 'role', definition: 'TEXT' },
+  { table: 'bot_djs', column: 'profile_url', definition: 'TEXT' },
+  { table: 'bot_djs', column: 'image_url', definition: 'TEXT' },
+  { table: 'bot_djs', column: 'first_seen_at', definition: 'DATETIME' },
+  { table: 'bot_djs', column: 'last_seen_at', definition: 'DATETIME' },
+  // Until schedules were a source, every DJ came from a team page
+  { table: 'bot_djs', column: 'on_team_page', definition: 'BOOLEAN NOT NULL DEFAULT 0', backfill: 'UPDATE bot_djs SET on_team_page = is_active' },
+  { table: 'bot_djs', column: 'in_schedule', definition: 'BOOLEAN NOT NULL DEFAULT 0' },
+  { table: 'bot_favorite_djs', column: 'dj_id', definition: 'INTEGER REFERENCES djs(id) ON DELETE SET NULL' },
+  { table: 'scrape_runs', column: 'dates', definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { table: 'scrape_runs', column: 'items_unchanged', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'scrape_run_items', column: 'unchanged', definition: 'BOOLEAN NOT NULL DEFAULT 0' },
+  { table: 'scrape_run_items', column: 'items_matched', definition: 'INTEGER' },
+  { table: 'scrape_run_items', column: 'parser_status', definition: 'TEXT' }
+];
 
-DELETE FROM days 
-WHERE day < date('now', '-${retentionDays} days');
+// Indexes on added columns, created once the columns exist
+export const createAddedIndexes = `
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shows_station_start_at ON shows(station_domain, start_at, dj, title);
+CREATE INDEX IF NOT EXISTS idx_shows_start_at ON shows(start_at);
+CREATE INDEX IF NOT EXISTS idx_shows_status ON shows(status);
+CREATE INDEX IF NOT EXISTS idx_show_performers_dj ON show_performers(dj_id);
+CREATE INDEX IF NOT EXISTS idx_dj_aliases_dj ON dj_aliases(dj_id);
+CREATE INDEX IF NOT EXISTS idx_bot_djs_dj ON bot_djs(dj_id);
+CREATE INDEX IF NOT EXISTS idx_bot_favorite_djs_dj ON bot_favorite_djs(dj_id);
 `;
+
+// Refreshes the search entry of one DJ from djs and dj_aliases
+const refreshDJSearch = (id: string) => `
+  DELETE FROM dj_search WHERE rowid = ${id};
+  INSERT INTO dj_search (rowid, name, real_name, aliases)
+  SELECT id, name, real_name, (SELECT group_concat(name, ' ') FROM dj_aliases WHERE dj_id = djs.id)
+  FROM djs WHERE id = ${id};`;
+
+// Full-text indexes over shows and DJs, kept current by triggers. The trigram
+// tokenizer matches any part of a word, ignoring case and diacritics; its
+// remove_diacritics option needs SQLite 3.45 (better-sqlite3 9.3).
+export const createSearchIndexes = `
+CREATE VIRTUAL TABLE IF NOT EXISTS show_search USING fts5(
+  title, dj, style,
+  content = 'shows', content_rowid = 'id',
+  tokenize = 'trigram remove_diacritics 1'
+);
+
+CREATE TRIGGER IF NOT EXISTS shows_search_insert AFTER INSERT ON shows BEGIN
+  INSERT INTO show_search (rowid, title, dj, style) VALUES (NEW.id, NEW.title, NEW.dj, NEW.style);
+END;
+
+CREATE TRIGGER IF NOT EXISTS shows_search_delete AFTER DELETE ON shows BEGIN
+  INSERT INTO show_search (show_search, rowid, title, dj, style) VALUES ('delete', OLD.id, OLD.title, OLD.dj, OLD.style);
+END;
+
+CREATE TRIGGER IF NOT EXISTS shows_search_update AFTER UPDATE OF title, dj, style ON shows BEGIN
+  INSERT INTO show_search (show_search, rowid, title, dj, style) VALUES ('delete', OLD.id, OLD.title, OLD.dj, OLD.style);
+  INSERT INTO show_search (rowid, title, dj, style) VALUES (NEW.id, NEW.title, NEW.dj, NEW.style);
+END;
+
+-- One row per DJ, rowid is the DJ id
+CREATE VIRTUAL TABLE IF NOT EXISTS dj_search USING fts5(
+  name, real_name, aliases,
+  tokenize = 'trigram remove_diacritics 1'
+);
+
+CREATE TRIGGER IF NOT EXISTS djs_search_insert AFTER INSERT ON djs BEGIN
+  ${refreshDJSearch('NEW.id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS djs_search_update AFTER UPDATE OF name, real_name ON djs BEGIN
+  ${refreshDJSearch('NEW.id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS djs_search_delete AFTER DELETE ON djs BEGIN
+  DELETE FROM dj_search WHERE rowid = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS dj_aliases_search_insert AFTER INSERT ON dj_aliases BEGIN
+  ${refreshDJSearch('NEW.dj_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS dj_aliases_search_update AFTER UPDATE ON dj_aliases BEGIN
+  ${refreshDJSearch('OLD.dj_id')}
+  ${refreshDJSearch('NEW.dj_id')}
+END;
+
+CREATE TRIGGER IF NOT EXISTS dj_aliases_search_delete AFTER DELETE ON dj_aliases BEGIN
+  ${refreshDJSearch('OLD.dj_id')}
+END;
+`;
+
+export const cleanupOldData = (retentionDays: number, snapshotRetentionDays: number) => [
+  `DELETE FROM show_changes WHERE day < date('now', '-${retentionDays} days')`,
+  `DELETE FROM shows WHERE day < date('now', '-${retentionDays} days')`,
+  `DELETE FROM days WHERE day < date('now', '-${retentionDays} days')`,
+  `DELETE FROM schedule_pages WHERE day < date('now', '-${retentionDays} days')`,
+  `DELETE FROM scrape_runs WHERE started_at < date('now', '-${retentionDays} days')`,
+  `DELETE FROM page_snapshots WHERE fetched_at < date('now', '-${snapshotRetentionDays} days')`
+];
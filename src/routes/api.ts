@@ -1,13 +1,154 @@
 import { FastifyInstance } from 'fastify';
-import { db } from '../database';
+import * as cron from 'node-cron';
+import { db, BotDJ } from '../database';
 import { serviceManager } from '../services/service-manager';
+import { SETTING_TYPES } from '../services/settings';
 import { config } from '../config';
-import { ApiResponse, ScheduleQuery, Config } from '../types';
+import {
+  ApiResponse, ScheduleQuery, Config, ShowChangeType, ScrapeRunStatus, StationUpdate, ConfigUpdate, SettingKey, SettingSource, SearchType,
+  ShowCursor, ShowQuery, ShowSort, SortOrder
+} from '../types';
 import { logger } from '../utils/logger';
+import { maskProxyUrl } from '../utils/proxy';
+import { normalizePerformerName } from '../utils/performers';
+import { MIN_TERM_LENGTH, matchExpression, searchTerms } from '../utils/search';
+import { stationRegistry } from '../stations';
+
+const STATION_DOMAIN = /^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+// Scrape horizon of new stations and its upper limit in each direction
+const DEFAULT_DAYS_BACK = 1;
+const DEFAULT_DAYS_FORWARD = 5;
+const MAX_SCRAPE_DAYS = 30;
+
+const SEARCH_TYPES: SearchType[] = ['djs', 'shows', 'styles'];
+
+const SHOW_SORTS: ShowSort[] = ['start', 'station', 'dj', 'title', 'style'];
+// Schedule queries are always paged, so a single request cannot read the whole table
+const DEFAULT_SHOW_PAGE_SIZE = 100;
+const MAX_SHOW_PAGE_SIZE = 1000;
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isProxyUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function validateStationUpdate(update: StationUpdate): string | undefined {
+  const { name, enabled, daysBack, daysForward, cronSchedule } = update;
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return 'name must not be empty';
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+  if ([daysBack, daysForward].some(days => days !== undefined && (!Number.isInteger(days) || days < 0 || days > MAX_SCRAPE_DAYS))) {
+    return `daysBack and daysForward must be between 0 and ${MAX_SCRAPE_DAYS}`;
+  }
+  if (cronSchedule !== undefined && cronSchedule !== null && typeof cronSchedule !== 'string') {
+    return 'cronSchedule must be a string';
+  }
+  if (cronSchedule && !cron.validate(cronSchedule)) {
+    return `Invalid cron schedule: ${cronSchedule}`;
+  }
+  return undefined;
+}
+
+// Only the settings and stations can be changed; null removes a stored setting
+function validateConfigUpdate(update: Record<string, unknown>): string | undefined {
+  for (const [key, value] of Object.entries(update)) {
+    if (key === 'stations') {
+      if (!Array.isArray(value) || value.some(station => typeof station !== 'string')) {
+        return 'stations must be a list of domains';
+      }
+    } else if (!Object.prototype.hasOwnProperty.call(SETTING_TYPES, key)) {
+      return `Unknown setting: ${key}`;
+    } else if (value !== null && typeof value !== SETTING_TYPES[key as SettingKey]) {
+      return `${key} must be a ${SETTING_TYPES[key as SettingKey]}`;
+    }
+  }
+  return undefined;
+}
+
+// Cursors are opaque to clients; they hold the sort they belong to and the position after the last show
+function encodeShowCursor(sort: ShowSort, order: SortOrder, after: ShowCursor): string {
+  return Buffer.from(JSON.stringify({ sort, order, after })).toString('base64url');
+}
+
+function decodeShowCursor(cursor: string, sort: ShowSort, order: SortOrder): ShowCursor | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const [value, startAt, id] = decoded.after;
+    if (decoded.sort === sort && decoded.order === order &&
+      typeof value === 'string' && typeof startAt === 'string' && Number.isInteger(id)) {
+      return [value, startAt, id];
+    }
+  } catch {
+    // Not a cursor of ours
+  }
+  return undefined;
+}
+
+// Query of the schedule endpoints, or the reason it is invalid
+function parseScheduleQuery(query: ScheduleQuery): { showQuery?: ShowQuery; error?: string } {
+  const { date, from, to, dj, timeFrom, timeTo, limit, cursor } = query;
+
+  const stations = query.station?.split(',').map(station => station.trim()).filter(station => station) ?? [];
+  const invalidStation = stations.find(station => !STATION_DOMAIN.test(station));
+  if (invalidStation) {
+    return { error: `Invalid station: ${invalidStation}` };
+  }
+
+  for (const [name, value] of Object.entries({ date, from, to })) {
+    if (value && !DAY.test(value)) {
+      return { error: `Invalid ${name} parameter: ${value}. Expected YYYY-MM-DD` };
+    }
+  }
+  for (const [name, value] of Object.entries({ timeFrom, timeTo })) {
+    if (value && !TIME_OF_DAY.test(value)) {
+      return { error: `Invalid ${name} parameter: ${value}. Expected HH:MM` };
+    }
+  }
+
+  const sort = (query.sort || 'start') as ShowSort;
+  if (!SHOW_SORTS.includes(sort)) {
+    return { error: `Invalid sort: ${sort}. Valid values are: ${SHOW_SORTS.join(', ')}` };
+  }
+  const order = (query.order || 'asc') as SortOrder;
+  if (!['asc', 'desc'].includes(order)) {
+    return { error: `Invalid order: ${order}. Expected asc or desc` };
+  }
+
+  const after = cursor ? decodeShowCursor(cursor, sort, order) : undefined;
+  if (cursor && !after) {
+    return { error: 'Invalid cursor; it only works with the sort and order it was returned for' };
+  }
+
+  return {
+    showQuery: {
+      stations,
+      from: date || from,
+      to: date || to,
+      performer: dj,
+      styles: query.style?.split(',').map(style => style.trim()).filter(style => style),
+      timeFrom,
+      timeTo,
+      sort,
+      order,
+      limit: Math.min(Math.max(parseInt(limit ?? '', 10) || DEFAULT_SHOW_PAGE_SIZE, 1), MAX_SHOW_PAGE_SIZE),
+      after
+    }
+  };
+}
 
 export async function apiRoutes(fastify: FastifyInstance) {
   // Initialize services safely
-  let schedulerService: any, telegramBot: any, notificationService: any, djScraperService: any;
+  let schedulerService: any, telegramBot: any, notificationService: any, djScraperService: any, settingsService: any;
+  let backupService: any;
   
   try {
     schedulerService = serviceManager.getSchedulerService();
@@ -33,128 +174,870 @@ export async function apiRoutes(fastify: FastifyInstance) {
     logger.error('Failed to get DJ scraper service:', error);
   }
 
+  try {
+    settingsService = serviceManager.getSettingsService();
+  } catch (error: any) {
+    logger.error('Failed to get settings service:', error);
+  }
+
+  try {
+    backupService = serviceManager.getBackupService();
+  } catch (error: any) {
+    logger.error('Failed to get backup service:', error);
+  }
+
+  // Exports as NDJSON are posted as they were downloaded
+  fastify.addContentTypeParser('application/x-ndjson', { parseAs: 'string' }, (request, body, done) => {
+    done(null, body);
+  });
+
   // GET /api/stations
   fastify.get('/api/stations', async (request, reply) => {
     try {
       const stations = await db.getStations();
       const response: ApiResponse = {
         success: true,
-        data: stations
+        data: stations
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get stations:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve stations'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/stations/:domain
+  fastify.get<{ Params: { domain: string } }>('/api/stations/:domain', async (request, reply) => {
+    try {
+      const station = await db.getStation(request.params.domain);
+      if (!station) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Station not found: ${request.params.domain}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: station
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get station:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve station'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // POST /api/stations
+  fastify.post<{ Body: StationUpdate & { domain?: string } }>('/api/stations', async (request, reply) => {
+    try {
+      const { domain, ...update } = request.body || {};
+      const error = !domain || !STATION_DOMAIN.test(domain)
+        ? `Invalid station domain: ${domain}`
+        : validateStationUpdate(update);
+      if (error) {
+        const response: ApiResponse = {
+          success: false,
+          error
+        };
+        return reply.status(400).send(response);
+      }
+
+      const stationDomain = domain!.toLowerCase();
+      if (await db.getStation(stationDomain)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Station already exists: ${stationDomain}`
+        };
+        return reply.status(409).send(response);
+      }
+
+      await db.addStation({
+        domain: stationDomain,
+        name: update.name || stationRegistry.resolve(stationDomain).displayName,
+        enabled: update.enabled ?? true,
+        daysBack: update.daysBack ?? DEFAULT_DAYS_BACK,
+        daysForward: update.daysForward ?? DEFAULT_DAYS_FORWARD,
+        cronSchedule: update.cronSchedule || undefined
+      });
+      await schedulerService.reloadStations();
+
+      const response: ApiResponse = {
+        success: true,
+        data: await db.getStation(stationDomain),
+        message: 'Station added'
+      };
+      return reply.status(201).send(response);
+    } catch (error) {
+      logger.error('Failed to add station:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to add station'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // PATCH /api/stations/:domain
+  fastify.patch<{ Params: { domain: string }; Body: StationUpdate }>('/api/stations/:domain', async (request, reply) => {
+    try {
+      const station = await db.getStation(request.params.domain);
+      if (!station) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Station not found: ${request.params.domain}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      const update = request.body || {};
+      const error = validateStationUpdate(update);
+      if (error) {
+        const response: ApiResponse = {
+          success: false,
+          error
+        };
+        return reply.status(400).send(response);
+      }
+
+      // Fields that are left out keep their value
+      await db.updateStation(station.domain, {
+        name: update.name || station.name,
+        enabled: update.enabled ?? station.enabled,
+        daysBack: update.daysBack ?? station.daysBack,
+        daysForward: update.daysForward ?? station.daysForward,
+        cronSchedule: update.cronSchedule === undefined ? station.cronSchedule : update.cronSchedule || undefined
+      });
+      await schedulerService.reloadStations();
+
+      const response: ApiResponse = {
+        success: true,
+        data: await db.getStation(station.domain),
+        message: 'Station updated'
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to update station:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to update station'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // DELETE /api/stations/:domain
+  fastify.delete<{ Params: { domain: string } }>('/api/stations/:domain', async (request, reply) => {
+    try {
+      const deleted = await db.deleteStation(request.params.domain);
+      if (!deleted) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Station not found: ${request.params.domain}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      stationRegistry.setStationName(request.params.domain);
+      await schedulerService.reloadStations();
+
+      const response: ApiResponse = {
+        success: true,
+        message: `Station ${request.params.domain} removed`
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to remove station:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to remove station'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/schedule
+  fastify.get<{ Querystring: ScheduleQuery }>('/api/schedule', async (request, reply) => {
+    try {
+      const { showQuery, error } = parseScheduleQuery(request.query);
+      if (!showQuery) {
+        const response: ApiResponse = {
+          success: false,
+          error
+        };
+        return reply.status(400).send(response);
+      }
+
+      const { shows, nextCursor } = await db.queryShows(showQuery);
+      const response: ApiResponse = {
+        success: true,
+        data: shows,
+        nextCursor: nextCursor ? encodeShowCursor(showQuery.sort!, showQuery.order!, nextCursor) : null
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get schedule:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve schedule'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/schedule/range
+  fastify.get<{ Querystring: ScheduleQuery }>('/api/schedule/range', async (request, reply) => {
+    try {
+      if (!request.query.from || !request.query.to) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'from and to parameters are required'
+        };
+        return reply.status(400).send(response);
+      }
+
+      const { showQuery, error } = parseScheduleQuery({ ...request.query, date: undefined });
+      if (!showQuery) {
+        const response: ApiResponse = {
+          success: false,
+          error
+        };
+        return reply.status(400).send(response);
+      }
+
+      const { shows, nextCursor } = await db.queryShows(showQuery);
+      const response: ApiResponse = {
+        success: true,
+        data: shows,
+        nextCursor: nextCursor ? encodeShowCursor(showQuery.sort!, showQuery.order!, nextCursor) : null
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get schedule range:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve schedule range'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/changes
+  fastify.get<{ Querystring: { station?: string; since?: string; type?: string; limit?: string } }>('/api/changes', async (request, reply) => {
+    try {
+      const { station, since, type, limit } = request.query;
+
+      if (since && isNaN(Date.parse(since))) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid since parameter: ${since}. Expected ISO date or timestamp`
+        };
+        return reply.status(400).send(response);
+      }
+
+      if (type && !['added', 'changed', 'cancelled'].includes(type)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid type parameter: ${type}. Expected added, changed or cancelled`
+        };
+        return reply.status(400).send(response);
+      }
+
+      const changes = await db.getShowChanges({
+        stationDomain: station,
+        since: since ? new Date(since).toISOString() : undefined,
+        changeType: type as ShowChangeType | undefined,
+        limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 500, 1), 5000) : undefined
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: changes
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get schedule changes:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve schedule changes'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/search?q=alpha&station=technobase.fm&from=2025-01-15&to=2025-01-20&types=djs,shows&limit=20
+  fastify.get<{ Querystring: { q?: string; station?: string; from?: string; to?: string; types?: string; limit?: string } }>('/api/search', async (request, reply) => {
+    try {
+      const { q = '', station, from, to, limit } = request.query;
+
+      if (!matchExpression(searchTerms(q))) {
+        const response: ApiResponse = {
+          success: false,
+          error: `q must contain a word of at least ${MIN_TERM_LENGTH} characters`
+        };
+        return reply.status(400).send(response);
+      }
+
+      for (const [name, value] of Object.entries({ from, to })) {
+        if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          const response: ApiResponse = {
+            success: false,
+            error: `Invalid ${name} parameter: ${value}. Expected YYYY-MM-DD`
+          };
+          return reply.status(400).send(response);
+        }
+      }
+
+      const types = request.query.types?.split(',').map(type => type.trim()) as SearchType[] | undefined;
+      const invalidType = types?.find(type => !SEARCH_TYPES.includes(type));
+      if (invalidType !== undefined) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid type: ${invalidType}. Valid types are: ${SEARCH_TYPES.join(', ')}`
+        };
+        return reply.status(400).send(response);
+      }
+
+      const results = await db.search({
+        q,
+        station,
+        from,
+        to,
+        types,
+        limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 20, 1), 100) : undefined
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: results
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to search:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to search'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/djs
+  fastify.get<{ Querystring: { q?: string } }>('/api/djs', async (request, reply) => {
+    try {
+      const djs = await db.getDJs(request.query.q);
+      const response: ApiResponse = {
+        success: true,
+        data: djs
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get DJs:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve DJs'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/djs/:id
+  fastify.get<{ Params: { id: string } }>('/api/djs/:id', async (request, reply) => {
+    try {
+      const djId = parseInt(request.params.id, 10);
+      const dj = isNaN(djId) ? null : await db.getDJ(djId);
+
+      if (!dj) {
+        const response: ApiResponse = {
+          success: false,
+          error: `DJ not found: ${request.params.id}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: dj
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get DJ:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve DJ'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/djs/:id/shows
+  fastify.get<{ Params: { id: string }; Querystring: { from?: string; to?: string } }>('/api/djs/:id/shows', async (request, reply) => {
+    try {
+      const { from, to } = request.query;
+
+      if (!from || !to) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'From and to parameters are required'
+        };
+        return reply.status(400).send(response);
+      }
+
+      const djId = parseInt(request.params.id, 10);
+      const dj = isNaN(djId) ? null : await db.getDJ(djId);
+
+      if (!dj) {
+        const response: ApiResponse = {
+          success: false,
+          error: `DJ not found: ${request.params.id}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      const shows = await db.getDJShows(dj.id, from, to);
+      const response: ApiResponse = {
+        success: true,
+        data: shows
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get DJ shows:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve DJ shows'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // POST /api/djs/:id/merge
+  fastify.post<{ Params: { id: string }; Body: { sourceIds?: number[] } }>('/api/djs/:id/merge', async (request, reply) => {
+    try {
+      const { sourceIds } = request.body || {};
+      const djId = parseInt(request.params.id, 10);
+
+      if (!Array.isArray(sourceIds) || sourceIds.length === 0 || sourceIds.some(id => !Number.isInteger(id) || id === djId)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'sourceIds must be a non-empty array of other DJ ids'
+        };
+        return reply.status(400).send(response);
+      }
+
+      for (const id of [djId, ...sourceIds]) {
+        if (isNaN(id) || !(await db.getDJ(id))) {
+          const response: ApiResponse = {
+            success: false,
+            error: `DJ not found: ${isNaN(id) ? request.params.id : id}`
+          };
+          return reply.status(404).send(response);
+        }
+      }
+
+      const dj = await db.mergeDJs(djId, sourceIds);
+      logger.info(`Merged DJs ${sourceIds.join(', ')} into ${dj.id} (${dj.name})`);
+
+      const response: ApiResponse = {
+        success: true,
+        data: dj,
+        message: `${sourceIds.length} DJs merged into ${dj.name}`
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to merge DJs:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to merge DJs'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // POST /api/djs/:id/split
+  fastify.post<{ Params: { id: string }; Body: { aliases?: string[]; name?: string } }>('/api/djs/:id/split', async (request, reply) => {
+    try {
+      const { aliases, name } = request.body || {};
+      const djId = parseInt(request.params.id, 10);
+      const dj = isNaN(djId) ? null : await db.getDJ(djId);
+
+      if (!dj) {
+        const response: ApiResponse = {
+          success: false,
+          error: `DJ not found: ${request.params.id}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      if (!Array.isArray(aliases) || aliases.length === 0 || aliases.some(alias => typeof alias !== 'string' || !alias.trim())) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'aliases must be a non-empty array of alias names'
+        };
+        return reply.status(400).send(response);
+      }
+
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'name must not be empty'
+        };
+        return reply.status(400).send(response);
+      }
+
+      const known = new Set(dj.aliases.map(alias => normalizePerformerName(alias)));
+      const unknown = aliases.filter(alias => !known.has(normalizePerformerName(alias)));
+      if (unknown.length > 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Not an alias of ${dj.name}: ${unknown.join(', ')}`
+        };
+        return reply.status(400).send(response);
+      }
+
+      if (new Set(aliases.map(alias => normalizePerformerName(alias))).size === known.size) {
+        const response: ApiResponse = {
+          success: false,
+          error: `${dj.name} needs to keep at least one alias`
+        };
+        return reply.status(400).send(response);
+      }
+
+      const created = await db.splitDJ(djId, aliases, name);
+      logger.info(`Split ${aliases.join(', ')} from DJ ${dj.id} into ${created.id} (${created.name})`);
+
+      const response: ApiResponse = {
+        success: true,
+        data: created,
+        message: `${created.name} split from ${dj.name}`
+      };
+      return reply.status(201).send(response);
+    } catch (error) {
+      logger.error('Failed to split DJ:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to split DJ'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // POST /api/scrape
+  fastify.post<{ Body: { station?: string; dates?: string[]; force?: boolean } }>('/api/scrape', async (request, reply) => {
+    try {
+      const { station, dates, force } = request.body;
+
+      // Validate station if provided
+      if (station) {
+        const stationData = await db.getStation(station);
+        if (!stationData) {
+          const response: ApiResponse = {
+            success: false,
+            error: `Station not found: ${station}`
+          };
+          return reply.status(404).send(response);
+        }
+      }
+
+      // Validate dates if provided
+      if (dates) {
+        for (const date of dates) {
+          if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            const response: ApiResponse = {
+              success: false,
+              error: `Invalid date format: ${date}. Expected YYYY-MM-DD`
+            };
+            return reply.status(400).send(response);
+          }
+        }
+      }
+
+      // Queue the job; it runs in the background
+      const job = await schedulerService.runManualScrape(station, dates, 'api', force === true);
+
+      const response: ApiResponse = {
+        success: true,
+        data: job,
+        message: `Scrape job ${job.id} ${job.status}`
+      };
+      return reply.status(202).send(response);
+    } catch (error) {
+      logger.error('Failed to start scrape:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to start scrape job'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/scrape/jobs
+  fastify.get('/api/scrape/jobs', async (request, reply) => {
+    try {
+      const response: ApiResponse = {
+        success: true,
+        data: schedulerService.getJobs()
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get scrape jobs:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve scrape jobs'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/scrape/jobs/:id
+  fastify.get<{ Params: { id: string } }>('/api/scrape/jobs/:id', async (request, reply) => {
+    try {
+      const jobId = parseInt(request.params.id, 10);
+      const job = isNaN(jobId) ? null : await schedulerService.getJob(jobId);
+
+      if (!job) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Scrape job not found: ${request.params.id}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: job
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get scrape job:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve scrape job'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // DELETE /api/scrape/jobs/:id
+  fastify.delete<{ Params: { id: string } }>('/api/scrape/jobs/:id', async (request, reply) => {
+    try {
+      const jobId = parseInt(request.params.id, 10);
+      const job = isNaN(jobId) ? null : await schedulerService.getJob(jobId);
+
+      if (!job) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Scrape job not found: ${request.params.id}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      if (job.status !== 'queued' && job.status !== 'running') {
+        const response: ApiResponse = {
+          success: false,
+          error: `Scrape job ${job.id} is already ${job.status}`
+        };
+        return reply.status(409).send(response);
+      }
+
+      const cancelled = schedulerService.cancelJob(jobId)!;
+
+      const response: ApiResponse = {
+        success: true,
+        data: cancelled,
+        message: cancelled.status === 'running' ? 'Cancellation requested' : 'Scrape job cancelled'
       };
-      return reply.send(response);
+      return reply.status(cancelled.status === 'running' ? 202 : 200).send(response);
     } catch (error) {
-      logger.error('Failed to get stations:', error);
+      logger.error('Failed to cancel scrape job:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Failed to retrieve stations'
+        error: 'Failed to cancel scrape job'
       };
       return reply.status(500).send(response);
     }
   });
 
-  // GET /api/schedule
-  fastify.get<{ Querystring: ScheduleQuery }>('/api/schedule', async (request, reply) => {
+  // GET /api/scrape/runs
+  fastify.get<{ Querystring: { station?: string; status?: string; limit?: string } }>('/api/scrape/runs', async (request, reply) => {
     try {
-      const { station, date, from, to } = request.query;
+      const { station, status, limit } = request.query;
 
-      if (!station) {
+      if (status && !['queued', 'running', 'completed', 'failed', 'cancelled'].includes(status)) {
         const response: ApiResponse = {
           success: false,
-          error: 'Station parameter is required'
+          error: `Invalid status parameter: ${status}. Expected queued, running, completed, failed or cancelled`
         };
         return reply.status(400).send(response);
       }
 
-      const shows = await db.getShows(station, date, from, to);
+      const runs = await db.getScrapeRuns({
+        stationDomain: station,
+        status: status as ScrapeRunStatus | undefined,
+        limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 50, 1), 500) : undefined
+      });
+
       const response: ApiResponse = {
         success: true,
-        data: shows
+        data: runs
       };
       return reply.send(response);
     } catch (error) {
-      logger.error('Failed to get schedule:', error);
+      logger.error('Failed to get scrape runs:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Failed to retrieve schedule'
+        error: 'Failed to retrieve scrape runs'
       };
       return reply.status(500).send(response);
     }
   });
 
-  // GET /api/schedule/range
-  fastify.get<{ Querystring: ScheduleQuery }>('/api/schedule/range', async (request, reply) => {
+  // GET /api/scrape/runs/:id
+  fastify.get<{ Params: { id: string } }>('/api/scrape/runs/:id', async (request, reply) => {
     try {
-      const { station, from, to } = request.query;
+      const runId = parseInt(request.params.id, 10);
+      const run = isNaN(runId) ? null : await db.getScrapeRun(runId);
 
-      if (!station || !from || !to) {
+      if (!run) {
         const response: ApiResponse = {
           success: false,
-          error: 'Station, from, and to parameters are required'
+          error: `Scrape run not found: ${request.params.id}`
         };
-        return reply.status(400).send(response);
+        return reply.status(404).send(response);
       }
 
-      const shows = await db.getShows(station, undefined, from, to);
       const response: ApiResponse = {
         success: true,
-        data: shows
+        data: run
       };
       return reply.send(response);
     } catch (error) {
-      logger.error('Failed to get schedule range:', error);
+      logger.error('Failed to get scrape run:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Failed to retrieve schedule range'
+        error: 'Failed to retrieve scrape run'
       };
       return reply.status(500).send(response);
     }
   });
 
-  // POST /api/scrape
-  fastify.post<{ Body: { station?: string; dates?: string[] } }>('/api/scrape', async (request, reply) => {
+  // GET /api/snapshots
+  fastify.get<{ Querystring: { station?: string; day?: string; from?: string; to?: string; limit?: string } }>('/api/snapshots', async (request, reply) => {
     try {
-      const { station, dates } = request.body;
+      const { station, day, from, to, limit } = request.query;
 
-      // Validate station if provided
-      if (station) {
-        const stationData = await db.getStation(station);
-        if (!stationData) {
+      for (const [name, value] of Object.entries({ day, from, to })) {
+        if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
           const response: ApiResponse = {
             success: false,
-            error: `Station not found: ${station}`
+            error: `Invalid ${name} parameter: ${value}. Expected YYYY-MM-DD`
           };
-          return reply.status(404).send(response);
+          return reply.status(400).send(response);
         }
       }
 
-      // Validate dates if provided
-      if (dates) {
-        for (const date of dates) {
-          if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-            const response: ApiResponse = {
-              success: false,
-              error: `Invalid date format: ${date}. Expected YYYY-MM-DD`
-            };
-            return reply.status(400).send(response);
-          }
+      const snapshots = await db.getSnapshots({
+        stationDomain: station,
+        day,
+        from,
+        to,
+        limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 100, 1), 1000) : undefined
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: snapshots
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get snapshots:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve snapshots'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/snapshots/:id/html
+  fastify.get<{ Params: { id: string } }>('/api/snapshots/:id/html', async (request, reply) => {
+    try {
+      const snapshotId = parseInt(request.params.id, 10);
+      const html = isNaN(snapshotId) ? null : await db.getSnapshotHtml(snapshotId);
+
+      if (html === null) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Snapshot not found: ${request.params.id}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      // Served as plain text so archived pages never run in our origin
+      return reply
+        .header('Content-Type', 'text/plain; charset=utf-8')
+        .header('Content-Disposition', `inline; filename="snapshot-${snapshotId}.html"`)
+        .send(html);
+    } catch (error) {
+      logger.error('Failed to get snapshot:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve snapshot'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // POST /api/snapshots/reparse
+  fastify.post<{ Body: { station?: string; from?: string; to?: string; snapshotId?: number; apply?: boolean } }>('/api/snapshots/reparse', async (request, reply) => {
+    try {
+      const { station, from, to, snapshotId, apply } = request.body || {};
+
+      for (const [name, value] of Object.entries({ from, to })) {
+        if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          const response: ApiResponse = {
+            success: false,
+            error: `Invalid ${name} parameter: ${value}. Expected YYYY-MM-DD`
+          };
+          return reply.status(400).send(response);
         }
       }
 
-      // Start scraping in background
-      schedulerService.runManualScrape(station, dates).catch((error: any) => {
-        logger.error('Manual scrape failed:', error);
+      if (snapshotId !== undefined && !(await db.getSnapshot(snapshotId))) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Snapshot not found: ${snapshotId}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      const results = await serviceManager.getSnapshotService().reparse({
+        stationDomain: station,
+        from,
+        to,
+        snapshotId,
+        apply: apply === true
       });
 
       const response: ApiResponse = {
         success: true,
-        message: 'Scrape job started'
+        data: results,
+        message: `${results.length} snapshots re-parsed${apply === true ? ' and applied' : ' (dry run)'}`
       };
       return reply.send(response);
     } catch (error) {
-      logger.error('Failed to start scrape:', error);
+      logger.error('Failed to re-parse snapshots:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Failed to start scrape job'
+        error: 'Failed to re-parse snapshots'
       };
       return reply.status(500).send(response);
     }
@@ -163,12 +1046,16 @@ export async function apiRoutes(fastify: FastifyInstance) {
   // GET /api/config
   fastify.get('/api/config', async (request, reply) => {
     try {
-      const configData: Config = {
-        stations: config.stations,
+      const stations = await db.getStations();
+      const configData: Config & { sources: Record<keyof Config, SettingSource> } = {
+        stations: stations.filter(station => station.enabled).map(station => station.domain),
         cronSchedule: config.cronSchedule,
         retentionDays: config.retentionDays,
-        httpProxy: config.httpProxy,
-        httpsProxy: config.httpsProxy
+        httpProxy: config.httpProxy && maskProxyUrl(config.httpProxy),
+        httpsProxy: config.httpsProxy && maskProxyUrl(config.httpsProxy),
+        noProxy: config.noProxy,
+        // The station list lives in the stations table
+        sources: { stations: 'database', ...settingsService.getSources() }
       };
 
       const response: ApiResponse = {
@@ -187,14 +1074,31 @@ export async function apiRoutes(fastify: FastifyInstance) {
   });
 
   // PUT /api/config
-  fastify.put<{ Body: Partial<Config> }>('/api/config', async (request, reply) => {
+  fastify.put<{ Body: ConfigUpdate }>('/api/config', async (request, reply) => {
     try {
-      const newConfig = request.body;
+      if (!request.body || typeof request.body !== 'object' || Array.isArray(request.body)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Request body must be an object'
+        };
+        return reply.status(400).send(response);
+      }
+
+      const error = validateConfigUpdate(request.body);
+      if (error) {
+        const response: ApiResponse = {
+          success: false,
+          error
+        };
+        return reply.status(400).send(response);
+      }
+
+      const newConfig = { ...request.body };
 
       // Validate stations
       if (newConfig.stations) {
         for (const station of newConfig.stations) {
-          if (!/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(station)) {
+          if (!STATION_DOMAIN.test(station)) {
             const response: ApiResponse = {
               success: false,
               error: `Invalid station domain: ${station}`
@@ -204,38 +1108,50 @@ export async function apiRoutes(fastify: FastifyInstance) {
         }
       }
 
-      // Validate cron schedule
-      if (newConfig.cronSchedule) {
-        try {
-          // Basic validation - in a real app you'd use a proper cron validator
-          if (!/^[\d\s\*\/,-]+$/.test(newConfig.cronSchedule)) {
-            throw new Error('Invalid cron format');
-          }
-        } catch (error) {
+      // Validate cron schedule; its type is checked above
+      if (newConfig.cronSchedule && !cron.validate(newConfig.cronSchedule)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid cron schedule: ${newConfig.cronSchedule}`
+        };
+        return reply.status(400).send(response);
+      }
+
+      // Validate retention days
+      if (newConfig.retentionDays !== undefined && newConfig.retentionDays !== null) {
+        if (!Number.isInteger(newConfig.retentionDays) || newConfig.retentionDays < 1 || newConfig.retentionDays > 365) {
           const response: ApiResponse = {
             success: false,
-            error: `Invalid cron schedule: ${newConfig.cronSchedule}`
+            error: 'Retention days must be between 1 and 365'
           };
           return reply.status(400).send(response);
         }
       }
 
-      // Validate retention days
-      if (newConfig.retentionDays !== undefined) {
-        if (newConfig.retentionDays < 1 || newConfig.retentionDays > 365) {
+      // Validate proxies; an empty string disables a proxy set in the environment
+      for (const key of ['httpProxy', 'httpsProxy'] as const) {
+        const proxy = newConfig[key];
+        if (!proxy) continue;
+
+        // GET returns masked credentials; sending them back keeps the current proxy
+        if (config[key] && proxy === maskProxyUrl(config[key]!)) {
+          delete newConfig[key];
+          continue;
+        }
+        if (!isProxyUrl(proxy)) {
           const response: ApiResponse = {
             success: false,
-            error: 'Retention days must be between 1 and 365'
+            error: `Invalid proxy URL for ${key}`
           };
           return reply.status(400).send(response);
         }
       }
 
-      // Note: In a real application, you'd save this to a config file or database
-      // For now, we'll just return success
+      await settingsService.update(newConfig);
+
       const response: ApiResponse = {
         success: true,
-        message: 'Configuration updated (restart required to take effect)'
+        message: 'Configuration updated'
       };
       return reply.send(response);
     } catch (error) {
@@ -252,9 +1168,10 @@ export async function apiRoutes(fastify: FastifyInstance) {
   fastify.get('/api/status', async (request, reply) => {
     try {
       const status = schedulerService.getStatus();
+      const parser = await serviceManager.getParserHealthService().getStatus();
       const response: ApiResponse = {
         success: true,
-        data: status
+        data: { ...status, parser }
       };
       return reply.send(response);
     } catch (error) {
@@ -267,6 +1184,169 @@ export async function apiRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // GET /api/database/migrations
+  fastify.get('/api/database/migrations', async (request, reply) => {
+    try {
+      const response: ApiResponse = {
+        success: true,
+        data: await db.getMigrationStatus()
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to get migration status:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to retrieve migration status'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // Admin endpoints
+  // GET /api/admin/backups
+  fastify.get('/api/admin/backups', async (request, reply) => {
+    try {
+      const response: ApiResponse = {
+        success: true,
+        data: backupService.listBackups()
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to list backups:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to list backups'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // POST /api/admin/backup
+  fastify.post('/api/admin/backup', async (request, reply) => {
+    try {
+      const backup = await backupService.createBackup();
+      const response: ApiResponse = {
+        success: true,
+        data: backup,
+        message: `Database backed up to ${backup.name}`
+      };
+      return reply.status(201).send(response);
+    } catch (error) {
+      logger.error('Failed to back up database:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to back up database'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // POST /api/admin/restore
+  fastify.post<{ Body: { name?: string } }>('/api/admin/restore', async (request, reply) => {
+    try {
+      const name = request.body?.name;
+      if (typeof name !== 'string' || !name) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'name of the backup is required'
+        };
+        return reply.status(400).send(response);
+      }
+
+      if (!backupService.getBackup(name)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Backup not found: ${name}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      if (schedulerService?.getStatus().currentJob !== undefined) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'A scrape job is running, try again when it has finished'
+        };
+        return reply.status(409).send(response);
+      }
+
+      const safety = await backupService.restoreBackup(name);
+      const response: ApiResponse = {
+        success: true,
+        data: { restored: name, previous: safety },
+        message: `Database restored from ${name}, the previous state was saved as ${safety.name}`
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to restore database:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to restore database'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // GET /api/admin/export?format=json|ndjson
+  fastify.get<{ Querystring: { format?: string } }>('/api/admin/export', async (request, reply) => {
+    try {
+      const format = request.query.format || 'json';
+      if (!['json', 'ndjson'].includes(format)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid format: ${format}. Valid formats are json and ndjson`
+        };
+        return reply.status(400).send(response);
+      }
+
+      const content = await backupService.exportData(format);
+      const date = new Date().toISOString().slice(0, 10);
+      return reply
+        .header('Content-Type', format === 'json' ? 'application/json; charset=utf-8' : 'application/x-ndjson; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="wao-base-export-${date}.${format}"`)
+        .send(content);
+    } catch (error) {
+      logger.error('Failed to export data:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to export data'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
+  // POST /api/admin/import
+  fastify.post<{ Body: unknown }>('/api/admin/import', { bodyLimit: 50 * 1024 * 1024 }, async (request, reply) => {
+    try {
+      let data;
+      try {
+        const body = request.body;
+        data = backupService.parseExport(typeof body === 'string' ? body : JSON.stringify(body));
+        await backupService.checkReferences(data);
+      } catch (error) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid export: ${error instanceof Error ? error.message : String(error)}`
+        };
+        return reply.status(400).send(response);
+      }
+
+      const result = await backupService.importData(data);
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'Import finished'
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to import data:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to import data'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
   // Bot endpoints
   // GET /api/bot/status
   fastify.get('/api/bot/status', async (request, reply) => {
@@ -305,7 +1385,7 @@ export async function apiRoutes(fastify: FastifyInstance) {
   });
 
   // GET /api/bot/djs
-  fastify.get('/api/bot/djs', async (request, reply) => {
+  fastify.get<{ Querystring: { station?: string; source?: string; inactive?: string } }>('/api/bot/djs', async (request, reply) => {
     try {
       if (!djScraperService) {
         const response: ApiResponse = {
@@ -314,11 +1394,23 @@ export async function apiRoutes(fastify: FastifyInstance) {
         };
         return reply.status(503).send(response);
       }
+
+      const { station, source, inactive } = request.query;
+
+      if (source && !['team', 'schedule'].includes(source)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid source: ${source}. Expected team or schedule`
+        };
+        return reply.status(400).send(response);
+      }
       
-      const djs = await djScraperService.getAvailableDJs();
+      const djs: BotDJ[] = inactive === 'true'
+        ? await db.getBotDJs(station, true)
+        : await djScraperService.getAvailableDJs(station);
       const response: ApiResponse = {
         success: true,
-        data: djs
+        data: djs.filter(dj => !source || (source === 'team' ? dj.onTeamPage : dj.inSchedule))
       };
       return reply.send(response);
     } catch (error) {
@@ -362,6 +1454,55 @@ export async function apiRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // POST /api/bot/scrape-djs/dry-run
+  fastify.post<{ Body: { station?: string } }>('/api/bot/scrape-djs/dry-run', async (request, reply) => {
+    try {
+      if (!djScraperService) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'DJ scraper service not available'
+        };
+        return reply.status(503).send(response);
+      }
+
+      const { station } = request.body || {};
+      if (station && !(await db.getStation(station))) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Station not found: ${station}`
+        };
+        return reply.status(404).send(response);
+      }
+
+      // Fetches the team pages but stores nothing
+      const results = [];
+      const stationDomains = station ? [station] : (await db.getStations())
+        .filter(stationData => stationData.enabled)
+        .map(stationData => stationData.domain);
+      for (const stationDomain of stationDomains) {
+        try {
+          results.push(await djScraperService.scrapeStation(stationDomain, false));
+        } catch (error) {
+          results.push({ stationDomain, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: results,
+        message: `${results.length} team pages checked (dry run)`
+      };
+      return reply.send(response);
+    } catch (error) {
+      logger.error('Failed to preview DJ scraping:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to preview DJ scraping'
+      };
+      return reply.status(500).send(response);
+    }
+  });
+
   if (config.telegramEnabled) {
 
     // GET /api/bot/users
@@ -414,17 +1555,5 @@ export async function apiRoutes(fastify: FastifyInstance) {
         return reply.status(500).send(response);
       }
     });
-  } else {
-    // Bot disabled endpoints
-    fastify.get('/api/bot/status', async (request, reply) => {
-      const response: ApiResponse = {
-        success: true,
-        data: {
-          enabled: false,
-          message: 'Telegram bot is disabled'
-        }
-      };
-      return reply.send(response);
-    });
   }
 }
@@ -1,6 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { serviceManager } from '../services/service-manager';
 import { logger } from '../utils/logger';
+import { stationRegistry } from '../stations';
 
 export async function caldavRoutes(fastify: FastifyInstance) {
   const caldavService = serviceManager.getCalDAVService();
@@ -8,7 +9,7 @@ export async function caldavRoutes(fastify: FastifyInstance) {
   // GET /caldav - List available calendars
   fastify.get('/caldav', async (request, reply) => {
     try {
-      const stations = caldavService.getAvailableStations();
+      const stations = await caldavService.getAvailableStations();
       const calendars = [];
 
       for (const station of stations) {
@@ -56,7 +57,7 @@ export async function caldavRoutes(fastify: FastifyInstance) {
       const { station } = request.params;
       
       // Validate station
-      const availableStations = caldavService.getAvailableStations();
+      const availableStations = await caldavService.getAvailableStations();
       if (!availableStations.includes(station)) {
         return reply.status(404).send({
           success: false,
@@ -95,7 +96,7 @@ export async function caldavRoutes(fastify: FastifyInstance) {
       const { station } = request.params;
       
       // Validate station
-      const availableStations = caldavService.getAvailableStations();
+      const availableStations = await caldavService.getAvailableStations();
       if (!availableStations.includes(station)) {
         return reply.status(404).send({
           success: false,
@@ -136,7 +137,7 @@ export async function caldavRoutes(fastify: FastifyInstance) {
           const { station } = params;
           
           // Validate station
-          const availableStations = caldavService.getAvailableStations();
+          const availableStations = await caldavService.getAvailableStations();
           if (!availableStations.includes(station)) {
             return reply.status(404).send('Station not found');
           }
@@ -159,7 +160,7 @@ export async function caldavRoutes(fastify: FastifyInstance) {
         <C:supported-calendar-component-set>
           <C:comp name="VEVENT"/>
         </C:supported-calendar-component-set>
-        <C:calendar-timezone>Europe/Berlin</C:calendar-timezone>
+        <C:calendar-timezone>${stationRegistry.resolve(station).timezone}</C:calendar-timezone>
       </D:prop>
       <D:status>HTTP/1.1 200 OK</D:status>
     </D:propstat>
@@ -1,5 +1,6 @@
 import { FastifyInstance } from 'fastify';
 import { db } from '../database';
+import { serviceManager } from '../services/service-manager';
 import { logger } from '../utils/logger';
 
 export async function healthRoutes(fastify: FastifyInstance) {
@@ -7,9 +8,11 @@ export async function healthRoutes(fastify: FastifyInstance) {
     try {
       const dbHealthy = await db.healthCheck();
       const dbStatus = db.getInitializationStatus();
+      // A degraded parser is reported but does not fail the health check
+      const parser = dbHealthy ? await serviceManager.getParserHealthService().getStatus() : undefined;
       
       const health = {
-        status: dbHealthy ? 'healthy' : 'unhealthy',
+        status: dbHealthy ? (parser?.status === 'degraded' ? 'degraded' : 'healthy') : 'unhealthy',
         timestamp: new Date().toISOString(),
         uptime: process.uptime(),
         memory: process.memoryUsage(),
@@ -17,7 +20,8 @@ export async function healthRoutes(fastify: FastifyInstance) {
           healthy: dbHealthy,
           initialized: dbStatus.isInitialized,
           error: dbStatus.error
-        }
+        },
+        parser
       };
 
       const statusCode = dbHealthy ? 200 : 503;
@@ -1,184 +1,169 @@
-import * as cheerio from 'cheerio';
-import { ScrapedShow, ScrapeResult } from '../types';
+import { createHash } from 'crypto';
+import { ScheduleParseResult, SchedulePage, ScrapedShow, ScrapeResult, StationAdapter } from '../types';
 import { logger } from '../utils/logger';
-import { config } from '../config';
+import { stationRegistry } from '../stations';
+import { addDays, formatDayInZone, timeToMinutes, zonedTimeToDate } from '../utils/date-time';
+import { HttpClient, HttpStatusError, httpClient } from '../utils/http-client';
+
+export { HttpStatusError } from '../utils/http-client';
 
 export class ScheduleScraper {
-  private baseUrl: string;
-  private proxy?: string;
+  private adapter: StationAdapter;
+  private client: HttpClient;
 
-  constructor(baseUrl: string, proxy?: string) {
-    this.baseUrl = baseUrl;
-    this.proxy = proxy;
+  constructor(adapter: StationAdapter, client: HttpClient = httpClient) {
+    this.adapter = adapter;
+    this.client = client;
   }
 
-  async scrapeSchedule(station: string, date: string): Promise<ScrapeResult> {
+  /**
+   * Scrape the schedule of one day. With the previously processed page, a
+   * conditional request is sent and parsing is skipped when the schedule
+   * content is unchanged.
+   */
+  async scrapeSchedule(date: string, previous?: SchedulePage | null): Promise<ScrapeResult> {
+    const station = this.adapter.domain;
+    const startedAt = Date.now();
+    const url = this.buildUrl(date);
+    let httpStatus: number | undefined;
+
     try {
-      const url = this.buildUrl(station, date);
       logger.info(`Scraping ${station} for ${date}: ${url}`);
 
-      const html = await this.fetchHtml(url);
-      const shows = this.parseShows(html);
+      const response = await this.client.fetchHtml(url, {
+        etag: previous?.etag,
+        lastModified: previous?.lastModified
+      });
+      httpStatus = response.status;
+
+      const validators = { etag: response.etag, lastModified: response.lastModified };
+      const contentHash = response.notModified ? previous?.contentHash : this.hashContent(response.html);
+
+      if (previous && contentHash === previous.contentHash) {
+        logger.info(`Schedule of ${station} for ${date} is unchanged`);
+        return {
+          station,
+          date,
+          url,
+          shows: [],
+          success: true,
+          httpStatus,
+          durationMs: Date.now() - startedAt,
+          warnings: [],
+          unchanged: true,
+          ...validators,
+          contentHash
+        };
+      }
 
-      logger.info(`Found ${shows.length} shows for ${station} on ${date}`);
+      const { shows, itemsMatched, containerFound, missingFields, warnings } = this.parseShows(response.html);
+      const resolvedShows = this.resolveShowTimes(shows, date);
+
+      logger.info(`Found ${resolvedShows.length} shows for ${station} on ${date}`);
 
       return {
         station,
         date,
-        shows,
-        success: true
+        url,
+        shows: resolvedShows,
+        success: true,
+        httpStatus,
+        durationMs: Date.now() - startedAt,
+        warnings,
+        itemsMatched,
+        containerFound,
+        missingFields,
+        unchanged: false,
+        ...validators,
+        contentHash,
+        html: response.html
       };
     } catch (error) {
       logger.error(`Failed to scrape ${station} for ${date}:`, error);
+      if (error instanceof HttpStatusError) {
+        httpStatus = error.status;
+      }
       return {
         station,
         date,
+        url,
         shows: [],
         success: false,
+        httpStatus,
+        durationMs: Date.now() - startedAt,
+        warnings: [],
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
 
-  buildUrl(station: string, date: string): string {
-    // Format: https://www.{domain}/sendeplan?day=YYYY-MM-DD%2000:00:00
-    const encodedDate = `${date}%2000:00:00`;
-    return `https://www.${station}/sendeplan?day=${encodedDate}`;
+  buildUrl(date: string): string {
+    return this.adapter.buildScheduleUrl(date);
   }
 
-  private async fetchHtml(url: string): Promise<string> {
-    const fetchOptions: RequestInit = {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'de-DE,de;q=0.9,en;q=0.8',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1'
-      }
-    };
-
-    if (this.proxy) {
-      // Note: In a real implementation, you'd need to configure the proxy properly
-      // This is a placeholder for proxy configuration
-      logger.info(`Using proxy: ${this.proxy}`);
-    }
-
-    const response = await fetch(url, fetchOptions);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-
-    return await response.text();
+  hashContent(html: string): string {
+    return createHash('sha256').update(this.adapter.extractScheduleContent(html)).digest('hex');
   }
 
-  parseShows(html: string): ScrapedShow[] {
-    const $ = cheerio.load(html);
-    const shows: ScrapedShow[] = [];
-
-    // Select schedule items
-    $('.content-list.schedule-list .item[itemtype="http://schema.org/BroadcastEvent"]').each((_, element) => {
-      try {
-        const show = this.parseShowItem($, $(element));
-        if (show) {
-          shows.push(show);
-        }
-      } catch (error) {
-        logger.warn('Failed to parse show item:', error);
-      }
-    });
-
-    return shows;
+  parseShows(html: string): ScheduleParseResult {
+    return this.adapter.parseSchedule(html);
   }
 
-  private parseShowItem($: cheerio.CheerioAPI, $item: cheerio.Cheerio<any>): ScrapedShow | null {
-    // Parse time information
-    const $timeContainer = $item.find('.time-djname > h2.title');
-    const $startTime = $timeContainer.find('span[itemprop="startDate"]');
-    
-    if ($startTime.length === 0) {
-      logger.warn('No start time found for show item');
-      return null;
-    }
-
-    const startTime = $startTime.text().trim();
-    
-    // Find end time - it's usually the next span after startDate
-    let endTime = '';
-    const $nextSpan = $startTime.next('span');
-    if ($nextSpan.length > 0) {
-      endTime = $nextSpan.text().trim();
-    } else {
-      // Fallback: try to find end time in content attribute or other locations
-      const endTimeContent = $startTime.attr('content');
-      if (endTimeContent) {
-        // Extract end time from ISO format if available
-        const endMatch = endTimeContent.match(/T(\d{2}:\d{2})/);
-        if (endMatch) {
-          endTime = endMatch[1];
-        }
+  /**
+   * Pages list their shows in broadcast order, so where the start times go
+   * back the list passed midnight. Either the shows before that point are
+   * overnight shows that started the evening before, or the shows after it
+   * start after midnight, on the next day.
+   */
+  resolveShowTimes(shows: ScrapedShow[], date: string): ScrapedShow[] {
+    const timezone = this.adapter.timezone;
+    const starts = shows.map(show => timeToMinutes(show.start));
+    const crossesMidnight = shows.map((show, index) => timeToMinutes(show.end) <= starts[index]);
+
+    const wrap = starts.findIndex((start, index) => index > 0 && start < starts[index - 1]);
+    const startedPreviousDay = wrap > 0 && crossesMidnight.slice(0, wrap).every(crosses => crosses);
+
+    return shows.map((show, index) => {
+      if (show.startAt && show.endAt) {
+        return {
+          ...show,
+          day: show.day || formatDayInZone(new Date(show.startAt), timezone)
+        };
       }
-    }
-
-    // Parse show information
-    const $showInfo = $item.find('.description .show-info');
-    
-    // DJ
-    const $dj = $showInfo.find('.dj-row [itemprop="dj"]');
-    const dj = $dj.text().trim() || $dj.find('a').text().trim();
-
-    // Title
-    const $title = $showInfo.find('.title-row [itemprop="name"]');
-    const title = $title.text().trim();
-
-    // Style/Genre
-    const $style = $showInfo.find('.genre-row [itemprop="genre"]');
-    const style = $style.text().trim();
-
-    // Validate required fields
-    if (!startTime || !dj || !title) {
-      logger.warn(`Incomplete show data: start=${startTime}, dj=${dj}, title=${title}`);
-      return null;
-    }
 
-    return {
-      dj,
-      title,
-      start: startTime,
-      end: endTime || this.calculateEndTime(startTime),
-      style: style || 'Unknown'
-    };
-  }
+      let day = date;
+      if (wrap > 0 && startedPreviousDay && index < wrap) {
+        day = addDays(date, -1);
+      } else if (wrap > 0 && !startedPreviousDay && index >= wrap) {
+        day = addDays(date, 1);
+      }
+      const endDay = crossesMidnight[index] ? addDays(day, 1) : day;
 
-  calculateEndTime(startTime: string): string {
-    // Simple fallback: assume 2-hour shows
-    const [hours, minutes] = startTime.split(':').map(Number);
-    const endHours = (hours + 2) % 24;
-    return `${endHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+      return {
+        ...show,
+        day,
+        startAt: zonedTimeToDate(day, show.start, timezone).toISOString(),
+        endAt: zonedTimeToDate(endDay, show.end, timezone).toISOString()
+      };
+    });
   }
 }
 
 export class ScraperManager {
   private scrapers: Map<string, ScheduleScraper> = new Map();
 
-  constructor() {
-    // Initialize scrapers for configured stations
-    for (const station of config.stations) {
-      const scraper = new ScheduleScraper(
-        `https://www.${station}`,
-        config.httpProxy || config.httpsProxy
-      );
+  // Scrapers are created on first use, so stations added at runtime need no restart
+  private getScraper(station: string): ScheduleScraper {
+    let scraper = this.scrapers.get(station);
+    if (!scraper) {
+      scraper = new ScheduleScraper(stationRegistry.resolve(station));
       this.scrapers.set(station, scraper);
     }
+    return scraper;
   }
 
-  async scrapeStation(station: string, date: string): Promise<ScrapeResult> {
-    const scraper = this.scrapers.get(station);
-    if (!scraper) {
-      throw new Error(`No scraper configured for station: ${station}`);
-    }
-    return await scraper.scrapeSchedule(station, date);
+  async scrapeStation(station: string, date: string, previous?: SchedulePage | null): Promise<ScrapeResult> {
+    return await this.getScraper(station).scrapeSchedule(date, previous);
   }
 
   async scrapeMultipleDates(station: string, dates: string[]): Promise<ScrapeResult[]> {
@@ -187,15 +172,8 @@ export class ScraperManager {
     for (const date of dates) {
       const result = await this.scrapeStation(station, date);
       results.push(result);
-      
-      // Add small delay between requests to be respectful
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
     
     return results;
   }
-
-  getAvailableStations(): string[] {
-    return Array.from(this.scrapers.keys());
-  }
 }
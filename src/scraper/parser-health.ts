@@ -0,0 +1,42 @@
+import { ParserHealthSignals, ParserStatus, ShowField } from '../types';
+
+// Share of matched schedule items that must parse into shows
+export const MIN_PARSE_RATIO = 0.8;
+// Share of matched items that may lack an optional field before it counts as drift
+export const MAX_MISSING_FIELD_RATIO = 0.5;
+// Minimum shows compared to the station's trailing average
+export const MIN_TRAILING_RATIO = 0.5;
+
+const optionalFields: ShowField[] = ['end', 'style'];
+
+/**
+ * Decide whether a parsed schedule page looks like the parser no longer
+ * matches the markup. Markup changes usually show up as a missing schedule
+ * or unparseable items; a short or empty day only trips the trailing
+ * average check.
+ */
+export function evaluateParserHealth(signals: ParserHealthSignals): { status: ParserStatus; reasons: string[] } {
+  const { containerFound, itemsMatched, showsParsed, missingFields, trailingAverage } = signals;
+  const reasons: string[] = [];
+
+  if (!containerFound) {
+    reasons.push('No schedule found in the page');
+  } else if (itemsMatched > 0) {
+    if (showsParsed / itemsMatched < MIN_PARSE_RATIO) {
+      reasons.push(`Only ${showsParsed} of ${itemsMatched} schedule items could be parsed`);
+    }
+
+    for (const field of optionalFields) {
+      const missing = missingFields[field] || 0;
+      if (missing / itemsMatched > MAX_MISSING_FIELD_RATIO) {
+        reasons.push(`Field "${field}" missing in ${missing} of ${itemsMatched} schedule items`);
+      }
+    }
+  }
+
+  if (containerFound && trailingAverage !== undefined && showsParsed < trailingAverage * MIN_TRAILING_RATIO) {
+    reasons.push(`Found ${showsParsed} shows, trailing average is ${trailingAverage.toFixed(1)}`);
+  }
+
+  return { status: reasons.length > 0 ? 'degraded' : 'ok', reasons };
+}
@@ -9,7 +9,7 @@ import { logger, logStartupBanner } from './utils/logger';
 import { db } from './database';
 import { serviceManager } from './services/service-manager';
 import { healthRoutes } from './routes/health';
-import { apiRoutes } from './routes/api-simple';
+import { apiRoutes } from './routes/api';
 import { caldavRoutes } from './routes/caldav';
 
 async function buildServer() {
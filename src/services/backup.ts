@@ -0,0 +1,276 @@
+import * as cron from 'node-cron';
+import { existsSync, mkdirSync, readdirSync, rmSync, statSync } from 'fs';
+import { basename, join } from 'path';
+import { config } from '../config';
+import { db, EXPORT_VERSION, ExportData, ImportResult } from '../database';
+import { logger } from '../utils/logger';
+import { BackupInfo } from '../types';
+import { SchedulerService } from './scheduler';
+import { SettingsService } from './settings';
+
+export type ExportFormat = 'json' | 'ndjson';
+
+// Sections of an export and the record type of their NDJSON lines
+const SECTIONS = {
+  stations: 'station',
+  shows: 'show',
+  djs: 'dj',
+  botUsers: 'botUser',
+  preferences: 'preference',
+  favorites: 'favorite'
+} as const;
+
+type Section = keyof typeof SECTIONS;
+
+type FieldType = 'string' | 'integer' | 'boolean' | 'list';
+
+// Fields a record needs to be imported; the others are optional
+const REQUIRED_FIELDS: Record<Section, Record<string, FieldType>> = {
+  stations: { domain: 'string', enabled: 'boolean', daysBack: 'integer', daysForward: 'integer' },
+  shows: {
+    day: 'string', stationDomain: 'string', dj: 'string', title: 'string',
+    start: 'string', end: 'string', startAt: 'string', endAt: 'string', style: 'string'
+  },
+  djs: { id: 'integer', name: 'string', aliases: 'list' },
+  botUsers: { telegramId: 'integer', languageCode: 'string', isActive: 'boolean' },
+  preferences: { telegramId: 'integer', notificationTimes: 'list', timezone: 'string' },
+  favorites: { telegramId: 'integer', stationDomain: 'string', djName: 'string' }
+};
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'list': return Array.isArray(value) && value.every(item => typeof item === 'string');
+    default: return typeof value === type;
+  }
+}
+
+// Backups taken by this service; the ones taken before migrations are named schedule-v<N>-...
+const BACKUP_NAME = /^schedule-\d.*\.db$/;
+const MIGRATION_BACKUP_NAME = /^schedule-v\d+-.*\.db$/;
+
+/**
+ * Online backups of the database into the backups directory, restoring one of
+ * them, and a portable export for moving data to another instance.
+ */
+export class BackupService {
+  private cronJob?: cron.ScheduledTask;
+
+  constructor(private scheduler: SchedulerService, private settings: SettingsService) {}
+
+  get backupDir(): string {
+    return join(config.dataDir, 'backups');
+  }
+
+  start(): void {
+    if (!config.backupSchedule) {
+      logger.info('Scheduled backups disabled');
+      return;
+    }
+
+    if (this.cronJob) {
+      logger.warn('Backup service is already running');
+      return;
+    }
+
+    logger.info(`Starting backup service with cron: ${config.backupSchedule}`);
+    this.cronJob = cron.schedule(config.backupSchedule, async () => {
+      try {
+        await this.createBackup();
+      } catch (error) {
+        logger.error('Scheduled backup failed:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: config.timezone
+    });
+  }
+
+  stop(): void {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = undefined;
+      logger.info('Backup service stopped');
+    }
+  }
+
+  /**
+   * Copy the live database while it stays in use, then drop the oldest
+   * backups beyond `backupKeep`. Backups taken before migrations are kept.
+   */
+  async createBackup(): Promise<BackupInfo> {
+    mkdirSync(this.backupDir, { recursive: true });
+    const name = `schedule-${new Date().toISOString().replace(/[:.]/g, '-')}.db`;
+    await db.backupTo(join(this.backupDir, name));
+    logger.info(`Backed up database to ${name}`);
+
+    const backups = this.listBackups().filter(backup => backup.kind === 'backup');
+    for (const backup of backups.slice(Math.max(config.backupKeep, 1))) {
+      rmSync(join(this.backupDir, backup.name), { force: true });
+      logger.info(`Removed old backup ${backup.name}`);
+    }
+
+    return this.getBackup(name)!;
+  }
+
+  // Newest first
+  listBackups(): BackupInfo[] {
+    if (!existsSync(this.backupDir)) return [];
+
+    return readdirSync(this.backupDir)
+      .filter(name => BACKUP_NAME.test(name) || MIGRATION_BACKUP_NAME.test(name))
+      .map(name => this.getBackup(name)!)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.name.localeCompare(a.name));
+  }
+
+  getBackup(name: string): BackupInfo | null {
+    if (name !== basename(name)) return null;
+    const path = join(this.backupDir, name);
+    if (!existsSync(path)) return null;
+
+    const stats = statSync(path);
+    return {
+      name,
+      size: stats.size,
+      createdAt: stats.mtime.toISOString(),
+      kind: MIGRATION_BACKUP_NAME.test(name) ? 'migration' : 'backup'
+    };
+  }
+
+  /**
+   * Replace the database with a backup. The current state is backed up first,
+   * so a restore can be undone; settings and stations are reloaded afterwards.
+   */
+  async restoreBackup(name: string): Promise<BackupInfo> {
+    const backup = this.getBackup(name);
+    if (!backup) {
+      throw new Error(`Backup not found: ${name}`);
+    }
+
+    const safety = await this.createBackup();
+    logger.info(`Restoring database from ${name} (current state saved as ${safety.name})`);
+    await db.restoreFrom(join(this.backupDir, backup.name));
+
+    await this.settings.load();
+    await this.scheduler.reloadStations();
+    return safety;
+  }
+
+  async exportData(format: ExportFormat = 'json'): Promise<string> {
+    const data = await db.exportData();
+    if (format === 'json') {
+      return JSON.stringify(data);
+    }
+
+    // A header line, then one line per record
+    const { format: name, version, exportedAt } = data;
+    const lines = [JSON.stringify({ format: name, version, exportedAt })];
+    for (const [section, type] of Object.entries(SECTIONS) as [Section, string][]) {
+      for (const record of data[section]) {
+        lines.push(JSON.stringify({ type, ...record }));
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Accepts both export formats; throws when the content is not an export of
+   * a supported version or a record lacks a field it needs.
+   */
+  parseExport(content: string): ExportData {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      data = this.parseNDJSON(content);
+    }
+    if (data && typeof data === 'object' && !Array.isArray(data.stations)) {
+      data = this.parseNDJSON(content);
+    }
+
+    if (data?.format !== 'wao-base-export') {
+      throw new Error('Not a wao-base export');
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported export version: ${data.version}`);
+    }
+    for (const section of Object.keys(SECTIONS) as Section[]) {
+      if (!Array.isArray(data[section])) {
+        throw new Error(`Export is missing ${section}`);
+      }
+      data[section].forEach((record: any, index: number) => {
+        if (!record || typeof record !== 'object') {
+          throw new Error(`${SECTIONS[section]} ${index + 1} is not an object`);
+        }
+        for (const [field, type] of Object.entries(REQUIRED_FIELDS[section])) {
+          if (!hasType(record[field], type)) {
+            throw new Error(`${SECTIONS[section]} ${index + 1}: ${field} must be ${type === 'integer' ? 'an' : 'a'} ${type}`);
+          }
+        }
+      });
+    }
+    return data as ExportData;
+  }
+
+  // Throws when a record refers to a station or bot user that is neither in the export nor in the database
+  async checkReferences(data: ExportData): Promise<void> {
+    const stations = new Set([...data.stations, ...await db.getStations()].map(station => station.domain));
+    const botUsers = new Set(data.botUsers.map(user => user.telegramId));
+
+    const checkStation = (type: string, index: number, domain: string) => {
+      if (!stations.has(domain)) {
+        throw new Error(`${type} ${index + 1}: unknown station ${domain}`);
+      }
+    };
+    const checkBotUser = async (type: string, index: number, telegramId: number) => {
+      if (!botUsers.has(telegramId)) {
+        if (!await db.getBotUser(telegramId)) {
+          throw new Error(`${type} ${index + 1}: unknown bot user ${telegramId}`);
+        }
+        botUsers.add(telegramId);
+      }
+    };
+
+    data.shows.forEach((show, index) => checkStation(SECTIONS.shows, index, show.stationDomain));
+    for (const [index, preferences] of data.preferences.entries()) {
+      await checkBotUser(SECTIONS.preferences, index, preferences.telegramId);
+    }
+    for (const [index, favorite] of data.favorites.entries()) {
+      checkStation(SECTIONS.favorites, index, favorite.stationDomain);
+      await checkBotUser(SECTIONS.favorites, index, favorite.telegramId);
+    }
+  }
+
+  // Expects an export checked by parseExport and checkReferences
+  async importData(data: ExportData): Promise<ImportResult> {
+    const result = await db.importData(data);
+    await this.scheduler.reloadStations();
+    return result;
+  }
+
+  private parseNDJSON(content: string): any {
+    const types = Object.fromEntries(Object.entries(SECTIONS).map(([section, type]) => [type, section]));
+    const lines = content.split('\n').map(line => line.trim()).filter(line => line);
+
+    let data: any;
+    lines.forEach((line, index) => {
+      let record: any;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${index + 1}`);
+      }
+
+      if (index === 0) {
+        data = { ...record, ...Object.fromEntries(Object.keys(SECTIONS).map(section => [section, []])) };
+        return;
+      }
+      const { type, ...values } = record;
+      if (!types[type]) {
+        throw new Error(`Unknown record type on line ${index + 1}: ${type}`);
+      }
+      data[types[type]].push(values);
+    });
+    return data;
+  }
+}
@@ -4,56 +4,32 @@ import { Show, Station } from '../types';
 import { db } from '../database';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { stationRegistry } from '../stations';
 
 export class CalDAVService {
-  private calendars: Map<string, ICalCalendar> = new Map();
-
-  constructor() {
-    this.initializeCalendars();
-  }
-
-  private initializeCalendars(): void {
-    for (const stationDomain of config.stations) {
-      const calendar = ical({
-        name: this.getStationName(stationDomain),
-        description: `Sendeplan für ${this.getStationName(stationDomain)}`,
-        timezone: config.timezone,
-        url: `${config.baseUrl}/caldav/${stationDomain}/calendar.ics`,
-        source: `${config.baseUrl}/caldav/${stationDomain}/calendar.ics`,
-        prodId: {
-          company: 'WAO-Base',
-          product: 'Sendeplan Scraper',
-          language: 'DE'
-        }
-      });
-
-      this.calendars.set(stationDomain, calendar);
-    }
-  }
-
-  private getStationName(domain: string): string {
-    const names: Record<string, string> = {
-      'technobase.fm': 'Technobase.FM',
-      'housetime.fm': 'Housetime.FM',
-      'hardbase.fm': 'Hardbase.FM',
-      'trancebase.fm': 'Trancebase.FM',
-      'coretime.fm': 'Coretime.FM',
-      'clubtime.fm': 'Clubtime.FM',
-      'teatime.fm': 'Teatime.FM',
-      'replay.fm': 'Replay.FM'
-    };
-    return names[domain] || domain;
+  // Built per request from the stations table, so added and renamed stations show up right away
+  private createCalendar(stationDomain: string): ICalCalendar {
+    const stationName = stationRegistry.getStationName(stationDomain);
+    return ical({
+      name: stationName,
+      description: `Sendeplan für ${stationName}`,
+      timezone: stationRegistry.resolve(stationDomain).timezone,
+      url: `${config.baseUrl}/caldav/${stationDomain}/calendar.ics`,
+      source: `${config.baseUrl}/caldav/${stationDomain}/calendar.ics`,
+      prodId: {
+        company: 'WAO-Base',
+        product: 'Sendeplan Scraper',
+        language: 'DE'
+      }
+    });
   }
 
   async generateCalendar(stationDomain: string, days: number = 7): Promise<string> {
     try {
-      const calendar = this.calendars.get(stationDomain);
-      if (!calendar) {
+      if (!(await db.getStation(stationDomain))) {
         throw new Error(`Calendar not found for station: ${stationDomain}`);
       }
-
-      // Clear existing events
-      calendar.clear();
+      const calendar = this.createCalendar(stationDomain);
 
       // Get shows for the specified number of days
       const endDate = new Date();
@@ -75,16 +51,14 @@ export class CalDAVService {
       // Create events for each show
       for (const [day, dayShows] of showsByDay) {
         for (const show of dayShows) {
-          const event = this.createEvent(show, stationDomain);
-          calendar.createEvent(event);
+          this.createEvent(calendar, show, stationDomain);
         }
       }
 
       // Add a summary event for the day if there are shows
       for (const [day, dayShows] of showsByDay) {
         if (dayShows.length > 0) {
-          const summaryEvent = this.createSummaryEvent(day, dayShows, stationDomain);
-          calendar.createEvent(summaryEvent);
+          this.createSummaryEvent(calendar, day, dayShows, stationDomain);
         }
       }
 
@@ -110,11 +84,9 @@ export class CalDAVService {
     return grouped;
   }
 
-  private createEvent(show: Show, stationDomain: string): ICalEvent {
-    const startDateTime = this.parseDateTime(show.day, show.start);
-    const endDateTime = this.parseDateTime(show.day, show.end);
-    const calendar = this.calendars.get(stationDomain);
-    if (!calendar) throw new Error(`Calendar not found for station: ${stationDomain}`);
+  private createEvent(calendar: ICalCalendar, show: Show, stationDomain: string): ICalEvent {
+    const startDateTime = new Date(show.startAt);
+    const endDateTime = new Date(show.endAt);
 
     const event = calendar.createEvent({
       id: uuidv4(),
@@ -122,8 +94,9 @@ export class CalDAVService {
       end: endDateTime,
       summary: `${show.title} - ${show.dj}`,
       description: this.createEventDescription(show),
-      location: this.getStationName(stationDomain),
-      url: `https://www.${stationDomain}`,
+      location: stationRegistry.getStationName(stationDomain),
+      url: show.showUrl || stationRegistry.resolve(stationDomain).baseUrl,
+      attachments: show.imageUrl ? [show.imageUrl] : [],
       categories: [{
         name: show.style
       }],
@@ -144,11 +117,9 @@ export class CalDAVService {
     return event;
   }
 
-  private createSummaryEvent(day: string, shows: Show[], stationDomain: string): ICalEvent {
+  private createSummaryEvent(calendar: ICalCalendar, day: string, shows: Show[], stationDomain: string): ICalEvent {
     const startDateTime = this.parseDateTime(day, '00:00');
     const endDateTime = this.parseDateTime(day, '23:59');
-    const calendar = this.calendars.get(stationDomain);
-    if (!calendar) throw new Error(`Calendar not found for station: ${stationDomain}`);
 
     const showList = shows
       .map(show => `${show.start} - ${show.title} (${show.dj})`)
@@ -158,10 +129,10 @@ export class CalDAVService {
       id: uuidv4(),
       start: startDateTime,
       end: endDateTime,
-      summary: `📻 ${this.getStationName(stationDomain)} - ${shows.length} Shows`,
+      summary: `📻 ${stationRegistry.getStationName(stationDomain)} - ${shows.length} Shows`,
       description: `Sendeplan für ${this.formatDate(day)}:\n\n${showList}`,
-      location: this.getStationName(stationDomain),
-      url: `https://www.${stationDomain}`,
+      location: stationRegistry.getStationName(stationDomain),
+      url: stationRegistry.resolve(stationDomain).baseUrl,
       categories: [{
         name: 'Sendeplan'
       }],
@@ -192,11 +163,17 @@ export class CalDAVService {
   }
 
   private createEventDescription(show: Show): string {
+    const details = [
+      show.description,
+      show.showUrl && `🔗 Show: ${show.showUrl}`,
+      show.djUrl && `👤 DJ-Profil: ${show.djUrl}`
+    ].filter(Boolean).join('\n');
+
     return `🎵 ${show.title}
 👤 DJ: ${show.dj}
 🎭 Style: ${show.style}
 ⏰ Zeit: ${show.start} - ${show.end}
-
+${details ? `\n${details}\n` : ''}
 Abonniere den Sendeplan für automatische Updates!`;
   }
 
@@ -207,8 +184,7 @@ Abonniere den Sendeplan für automatische Updates!`;
     lastModified: Date;
     eventCount: number;
   }> {
-    const calendar = this.calendars.get(stationDomain);
-    if (!calendar) {
+    if (!(await db.getStation(stationDomain))) {
       throw new Error(`Calendar not found for station: ${stationDomain}`);
     }
 
@@ -227,15 +203,16 @@ Abonniere den Sendeplan für automatische Updates!`;
     );
 
     return {
-      name: this.getStationName(stationDomain),
-      description: `Sendeplan für ${this.getStationName(stationDomain)}`,
+      name: stationRegistry.getStationName(stationDomain),
+      description: `Sendeplan für ${stationRegistry.getStationName(stationDomain)}`,
       url: `${config.baseUrl}/caldav/${stationDomain}/calendar.ics`,
       lastModified: new Date(),
       eventCount: shows.length
     };
   }
 
-  getAvailableStations(): string[] {
-    return Array.from(this.calendars.keys());
+  async getAvailableStations(): Promise<string[]> {
+    const stations = await db.getStations();
+    return stations.map(station => station.domain);
   }
 }
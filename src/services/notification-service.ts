@@ -5,6 +5,8 @@ import { db, BotUser, BotUserPreferences, BotFavoriteDJ } from '../database';
 import { TelegramBotService } from '../bot';
 import { Show } from '../types';
 import { parseNotificationTimes } from '../utils/time-parser';
+import { stationRegistry } from '../stations';
+import { zonedTimeToDate } from '../utils/date-time';
 
 export class NotificationService {
   private telegramBot: TelegramBotService;
@@ -104,41 +106,30 @@ export class NotificationService {
     const today = now.toISOString().split('T')[0];
     const tomorrowStr = tomorrow.toISOString().split('T')[0];
 
-    // Check shows for each favorite DJ
+    // A favorite follows the canonical DJ on every station, so the same DJ
+    // added from several stations is checked once
+    const followedDJs = new Map<number, BotFavoriteDJ>();
     for (const favoriteDJ of favoriteDJs) {
+      if (favoriteDJ.djId && !followedDJs.has(favoriteDJ.djId)) {
+        followedDJs.set(favoriteDJ.djId, favoriteDJ);
+      }
+    }
+
+    // Check shows for each favorite DJ
+    for (const [djId, favoriteDJ] of followedDJs) {
       try {
-        const shows = await db.getShows(favoriteDJ.stationDomain, undefined, today, tomorrowStr);
-        const djShows = this.filterShowsForDJ(shows, favoriteDJ.djName);
+        // Includes B2B sets and lineups the DJ is part of
+        const djShows = await db.getDJShows(djId, today, tomorrowStr);
 
         for (const show of djShows) {
-          await this.checkShowNotification(user, preferences, show, favoriteDJ.stationDomain);
+          await this.checkShowNotification(user, preferences, show, show.stationDomain);
         }
       } catch (error) {
-        logger.error(`Failed to check shows for DJ ${favoriteDJ.djName} on ${favoriteDJ.stationDomain}:`, error);
+        logger.error(`Failed to check shows for DJ ${favoriteDJ.djName}:`, error);
       }
     }
   }
 
-  private filterShowsForDJ(shows: Show[], djName: string): Show[] {
-    return shows.filter(show => {
-      const showDJ = show.dj.toLowerCase();
-      const favoriteDJ = djName.toLowerCase();
-      
-      // Check for exact match or partial match
-      return showDJ.includes(favoriteDJ) || 
-             favoriteDJ.includes(showDJ) ||
-             this.normalizeDJName(showDJ) === this.normalizeDJName(favoriteDJ);
-    });
-  }
-
-  private normalizeDJName(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/^dj\s+/, '') // Remove "DJ " prefix
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-  }
-
   private async checkShowNotification(
     user: BotUser, 
     preferences: BotUserPreferences, 
@@ -161,7 +152,7 @@ export class NotificationService {
           const notificationMinutes = parseNotificationTimes(notificationTimeStr)[0];
           
           // Calculate notification time
-          const showStartTime = this.parseShowTime(show.day, show.start);
+          const showStartTime = new Date(show.startAt);
           const notificationTime = new Date(showStartTime);
           notificationTime.setMinutes(notificationTime.getMinutes() - notificationMinutes);
 
@@ -170,7 +161,7 @@ export class NotificationService {
 
           // Check if it's time to send notification (within 15 minutes window)
           if (timeDiff >= 0 && timeDiff <= 15 * 60 * 1000) {
-            const stationName = this.getStationName(stationDomain);
+            const stationName = stationRegistry.getStationName(stationDomain);
             await this.telegramBot.sendNotification(user.telegramId, show, stationName, notificationTimeStr);
             
             // Mark notification as sent
@@ -187,36 +178,19 @@ export class NotificationService {
     }
   }
 
-  private parseShowTime(day: string, time: string): Date {
-    const [year, month, dayNum] = day.split('-').map(Number);
-    const [hours, minutes] = time.split(':').map(Number);
-    
-    return new Date(year, month - 1, dayNum, hours, minutes);
-  }
-
-  private getStationName(domain: string): string {
-    const names: Record<string, string> = {
-      'technobase.fm': 'Technobase.FM',
-      'housetime.fm': 'Housetime.FM',
-      'hardbase.fm': 'Hardbase.FM',
-      'trancebase.fm': 'Trancebase.FM',
-      'coretime.fm': 'Coretime.FM',
-      'clubtime.fm': 'Clubtime.FM',
-      'teatime.fm': 'Teatime.FM',
-      'replay.fm': 'Replay.FM'
-    };
-    return names[domain] || domain;
-  }
-
   async sendTestNotification(telegramId: number): Promise<void> {
+    const day = new Date().toISOString().split('T')[0];
+    const timezone = stationRegistry.resolve('technobase.fm').timezone;
     const testShow: Show = {
       id: 999999,
-      day: new Date().toISOString().split('T')[0],
+      day,
       stationDomain: 'technobase.fm',
       dj: 'DJ Test',
       title: 'Test Show',
       start: '20:00',
       end: '22:00',
+      startAt: zonedTimeToDate(day, '20:00', timezone).toISOString(),
+      endAt: zonedTimeToDate(day, '22:00', timezone).toISOString(),
       style: 'Test Music'
     };
 
@@ -0,0 +1,89 @@
+import { db } from '../database';
+import { logger } from '../utils/logger';
+import { TelegramBotService } from '../bot';
+import { stationRegistry } from '../stations';
+import { evaluateParserHealth } from '../scraper/parser-health';
+import { ParserHealth, ParserStatus, ScrapeResult } from '../types';
+
+export interface DayHealth {
+  day: string;
+  status: ParserStatus;
+  reasons: string[];
+}
+
+export class ParserHealthService {
+  private telegramBot: TelegramBotService | null;
+
+  constructor(telegramBot: TelegramBotService | null) {
+    this.telegramBot = telegramBot;
+  }
+
+  /**
+   * Health of a single parsed schedule page, compared against the
+   * station's recent healthy scrapes
+   */
+  async evaluateDay(stationDomain: string, result: ScrapeResult): Promise<DayHealth> {
+    const trailingAverage = await db.getTrailingShowAverage(stationDomain);
+    const { status, reasons } = evaluateParserHealth({
+      containerFound: result.containerFound ?? true,
+      itemsMatched: result.itemsMatched ?? result.shows.length,
+      showsParsed: result.shows.length,
+      missingFields: result.missingFields || {},
+      trailingAverage
+    });
+
+    if (status === 'degraded') {
+      logger.warn(`Parser degraded for ${stationDomain} on ${result.date}: ${reasons.join('; ')}`);
+    }
+
+    return { day: result.date, status, reasons };
+  }
+
+  /**
+   * Update the station state from the pages parsed in one pass. Admins are
+   * alerted when a station becomes degraded and when it recovers.
+   */
+  async updateStation(stationDomain: string, days: DayHealth[]): Promise<ParserHealth | null> {
+    // Unchanged or failed pages say nothing about the parser
+    if (days.length === 0) return null;
+
+    const degraded = days.filter(day => day.status === 'degraded');
+    const status: ParserStatus = degraded.length > 0 ? 'degraded' : 'ok';
+    const reasons = degraded.flatMap(day => day.reasons.map(reason => `${day.day}: ${reason}`));
+
+    const [previous] = await db.getParserHealth(stationDomain);
+    const now = new Date().toISOString();
+    const health: ParserHealth = {
+      stationDomain,
+      status,
+      reasons,
+      since: previous && previous.status === status ? previous.since : now,
+      checkedAt: now
+    };
+    await db.saveParserHealth(health);
+
+    if ((previous?.status || 'ok') !== status) {
+      logger.warn(`Parser status of ${stationDomain} changed to ${status}`);
+      await this.sendAlert(health);
+    }
+
+    return health;
+  }
+
+  async getStatus(): Promise<{ status: ParserStatus; stations: ParserHealth[] }> {
+    const stations = await db.getParserHealth();
+    const status: ParserStatus = stations.some(station => station.status === 'degraded') ? 'degraded' : 'ok';
+    return { status, stations };
+  }
+
+  private async sendAlert(health: ParserHealth): Promise<void> {
+    if (!this.telegramBot) return;
+
+    const stationName = stationRegistry.getStationName(health.stationDomain);
+    const message = health.status === 'degraded'
+      ? `⚠️ Parser gestört: ${stationName}\n\nDer Sendeplan passt nicht mehr zum Parser:\n${health.reasons.map(reason => `• ${reason}`).join('\n')}`
+      : `✅ Parser wieder in Ordnung: ${stationName}`;
+
+    await this.telegramBot.sendAdminMessage(message);
+  }
+}
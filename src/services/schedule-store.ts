@@ -0,0 +1,42 @@
+import { db } from '../database';
+import { logger } from '../utils/logger';
+import { Show, ScrapedShow, ShowChange } from '../types';
+
+/**
+ * Reconcile the scraped shows of a day with the database and record the day
+ * as scraped. Used by scheduled scrapes and snapshot re-parses.
+ */
+export async function saveScrapedShows(stationDomain: string, date: string, shows: ScrapedShow[]): Promise<ShowChange[]> {
+  // Convert shows
+  const showRecords: Show[] = shows.map(show => ({
+    day: show.day || date,
+    stationDomain,
+    dj: show.dj,
+    title: show.title,
+    start: show.start,
+    end: show.end,
+    startAt: show.startAt!,
+    endAt: show.endAt!,
+    style: show.style,
+    description: show.description,
+    imageUrl: show.imageUrl,
+    showUrl: show.showUrl,
+    djUrl: show.djUrl
+  }));
+
+  // Reconcile before saving the day record, so the first scrape of a day is not reported as changes
+  const changes = await db.reconcileShows(stationDomain, date, showRecords);
+
+  await db.upsertDay({
+    stationDomain,
+    day: date,
+    scrapedAt: new Date()
+  });
+
+  for (const change of changes) {
+    const values = change.newValues || change.oldValues;
+    logger.info(`    ${change.changeType}: ${values?.start} ${values?.title} (${values?.dj}) on ${date}`);
+  }
+
+  return changes;
+}
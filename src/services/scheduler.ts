@@ -3,213 +3,459 @@ import { config } from '../config';
 import { logger } from '../utils/logger';
 import { ScraperManager } from '../scraper';
 import { db } from '../database';
-import { Station, Show } from '../types';
+import { stationRegistry } from '../stations';
+import { saveScrapedShows } from './schedule-store';
+import { DayHealth, ParserHealthService } from './parser-health';
+import {
+  Station, ScrapeRunItem, ScrapeTrigger, ScrapeJob, ScrapeJobItem, ScrapeJobItemStatus
+} from '../types';
+
+// Finished jobs kept in memory; older ones are read from the scrape run history
+const MAX_FINISHED_JOBS = 50;
 
 export class SchedulerService {
   private scraperManager: ScraperManager;
-  private cronJob?: cron.ScheduledTask;
+  private parserHealth: ParserHealthService;
+  private cronJobs: Map<string, cron.ScheduledTask> = new Map(); // By cron expression
+  private started = false;
+  private ready: Promise<void>;
   private isRunning = false;
+  private jobs: Map<number, ScrapeJob> = new Map();
+  private queue: number[] = [];
 
-  constructor() {
+  constructor(parserHealth: ParserHealthService) {
     this.scraperManager = new ScraperManager();
-    this.initializeStations();
+    this.parserHealth = parserHealth;
+    this.ready = this.initializeStations();
   }
 
   private async initializeStations(): Promise<void> {
     try {
-      for (const stationDomain of config.stations) {
-        const station: Station = {
-          domain: stationDomain,
-          name: this.getStationName(stationDomain),
-          enabled: true
-        };
-        await db.upsertStation(station);
+      const interrupted = await db.failInterruptedScrapeRuns();
+      if (interrupted > 0) {
+        logger.warn(`Marked ${interrupted} interrupted scrape runs as failed`);
+      }
+
+      // WAOBASE_STATIONS only seeds the first start, afterwards stations are managed via the API
+      if ((await db.getStations()).length === 0) {
+        for (const stationDomain of config.stations) {
+          await db.upsertStation({
+            domain: stationDomain,
+            name: stationRegistry.getStationName(stationDomain),
+            enabled: true
+          });
+        }
       }
+      await this.loadStationNames();
       logger.info('Stations initialized');
     } catch (error) {
       logger.error('Failed to initialize stations:', error);
     }
   }
 
-  private getStationName(domain: string): string {
-    const names: Record<string, string> = {
-      'technobase.fm': 'Technobase.FM',
-      'housetime.fm': 'Housetime.FM',
-      'hardbase.fm': 'Hardbase.FM',
-      'trancebase.fm': 'Trancebase.FM',
-      'coretime.fm': 'Coretime.FM',
-      'clubtime.fm': 'Clubtime.FM',
-      'teatime.fm': 'Teatime.FM',
-      'replay.fm': 'Replay.FM'
-    };
-    return names[domain] || domain;
-  }
 
   start(): void {
-    if (this.cronJob) {
+    if (this.started) {
       logger.warn('Scheduler is already running');
       return;
     }
+    this.started = true;
 
-    logger.info(`Starting scheduler with cron: ${config.cronSchedule}`);
-    
-    this.cronJob = cron.schedule(config.cronSchedule, async () => {
-      if (this.isRunning) {
-        logger.warn('Previous scrape job still running, skipping...');
-        return;
-      }
-      
-      await this.runScheduledScrape();
-    }, {
-      scheduled: true,
-      timezone: config.timezone
-    });
-
-    // Run initial scrape
-    this.runScheduledScrape();
+    this.reloadStations()
+      .then(() => this.runScheduledScrape()) // Run initial scrape
+      .catch(error => logger.error('Failed to start scheduler:', error));
   }
 
   stop(): void {
-    if (this.cronJob) {
-      this.cronJob.stop();
-      this.cronJob = undefined;
-      logger.info('Scheduler stopped');
+    if (!this.started) return;
+    this.started = false;
+    this.stopCronJobs();
+    logger.info('Scheduler stopped');
+  }
+
+  /**
+   * Pick up added, changed and removed stations: names and cron tasks are
+   * rebuilt from the stations table. Stations sharing a cron expression are
+   * scraped in one job.
+   */
+  async reloadStations(): Promise<void> {
+    await this.ready;
+    await this.loadStationNames();
+    if (!this.started) return;
+
+    const groups = new Map<string, string[]>();
+    for (const station of await this.getScheduledStations()) {
+      const expression = station.cronSchedule || config.cronSchedule;
+      groups.set(expression, [...(groups.get(expression) || []), station.domain]);
+    }
+
+    this.stopCronJobs();
+    for (const [expression, stations] of groups) {
+      logger.info(`Scheduling ${stations.join(', ')} with cron: ${expression}`);
+      this.cronJobs.set(expression, cron.schedule(expression, async () => {
+        await this.runScheduledScrape('cron', stations);
+      }, {
+        scheduled: true,
+        timezone: config.timezone
+      }));
     }
   }
 
-  async runScheduledScrape(): Promise<void> {
-    if (this.isRunning) {
-      logger.warn('Scrape job already running');
-      return;
+  private async loadStationNames(): Promise<void> {
+    for (const station of await db.getStations()) {
+      stationRegistry.setStationName(station.domain, station.name);
+    }
+  }
+
+  private stopCronJobs(): void {
+    for (const task of this.cronJobs.values()) {
+      task.stop();
+    }
+    this.cronJobs.clear();
+  }
+
+  private async getScheduledStations(): Promise<Station[]> {
+    const stations = await db.getStations();
+    return stations.filter(station => station.enabled);
+  }
+
+  async runScheduledScrape(trigger: ScrapeTrigger = 'cron', stationDomains?: string[]): Promise<ScrapeJob | null> {
+    const pending = new Set<string>();
+    for (const job of this.jobs.values()) {
+      if (job.trigger === trigger && (job.status === 'queued' || job.status === 'running')) {
+        job.stations.forEach(station => pending.add(station));
+      }
+    }
+
+    const stations = (await this.getScheduledStations())
+      .filter(station => !stationDomains || stationDomains.includes(station.domain));
+    const skipped = stations.filter(station => pending.has(station.domain));
+    if (skipped.length > 0) {
+      logger.warn(`Previous ${trigger} scrape of ${skipped.map(station => station.domain).join(', ')} still pending, skipping...`);
     }
 
+    const targets = stations.filter(station => !pending.has(station.domain));
+    if (targets.length === 0) return null;
+
+    return await this.enqueueJob(trigger, targets.map(station => ({
+      station: station.domain,
+      dates: this.generateDateRange(station)
+    })));
+  }
+
+  async runManualScrape(station?: string, dates?: string[], trigger: ScrapeTrigger = 'manual', force = false): Promise<ScrapeJob> {
+    logger.info(`Queueing manual scrape: station=${station || 'all'}, dates=${dates?.join(',') || 'default'}${force ? ', forced' : ''}`);
+
+    const stations = station ? [await db.getStation(station)] : await db.getStations();
+    const plan = stations.filter((stationData): stationData is Station => stationData !== null).map(stationData => ({
+      station: stationData.domain,
+      dates: dates || this.generateDateRange(stationData)
+    }));
+    return await this.enqueueJob(trigger, plan, force);
+  }
+
+  // Each station is scraped for its own dates; the job lists all of them
+  private async enqueueJob(trigger: ScrapeTrigger, plan: { station: string; dates: string[] }[], force = false): Promise<ScrapeJob> {
+    const stations = plan.map(entry => entry.station);
+    const dates = Array.from(new Set(plan.flatMap(entry => entry.dates))).sort();
+    const id = await db.createScrapeRun(trigger, stations, dates);
+    const items: ScrapeJobItem[] = [];
+    for (const entry of plan) {
+      for (const date of entry.dates) {
+        items.push({ station: entry.station, date, status: 'pending' });
+      }
+    }
+
+    const job: ScrapeJob = {
+      id,
+      trigger,
+      status: 'queued',
+      stations,
+      dates,
+      force,
+      progress: { total: items.length, finished: 0, failed: 0, unchanged: 0, items },
+      cancelRequested: false,
+      createdAt: new Date().toISOString()
+    };
+
+    this.jobs.set(id, job);
+    this.queue.push(id);
+    this.pruneFinishedJobs();
+    logger.info(`Scrape job ${id} queued (${trigger}, ${stations.length} stations, ${dates.length} dates)`);
+
+    this.processQueue();
+    return job;
+  }
+
+  // Jobs run one after another, so cron and manual scrapes never hit a station concurrently
+  private async processQueue(): Promise<void> {
+    if (this.isRunning) return;
     this.isRunning = true;
-    logger.info('Starting scheduled scrape job');
 
     try {
-      const dates = this.generateDateRange();
-      logger.info(`Scraping dates: ${dates.join(', ')}`);
+      let jobId: number | undefined;
+      while ((jobId = this.queue.shift()) !== undefined) {
+        const job = this.jobs.get(jobId);
+        if (job && job.status === 'queued') {
+          await this.runJob(job);
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
 
-      for (const stationDomain of config.stations) {
+  private async runJob(job: ScrapeJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await db.startScrapeRun(job.id);
+    logger.info(`Starting ${job.trigger} scrape job ${job.id}`);
+    logger.info(`Scraping dates: ${job.dates.join(', ')}`);
+
+    try {
+      for (const stationDomain of job.stations) {
+        const stationItems = job.progress.items.filter(item => item.station === stationDomain);
         const station = await db.getStation(stationDomain);
-        if (!station || !station.enabled) {
-          logger.info(`Skipping disabled station: ${stationDomain}`);
+
+        if (!station || (job.trigger === 'cron' && !station.enabled)) {
+          logger.info(station ? `Skipping disabled station: ${stationDomain}` : `Station not found: ${stationDomain}`);
+          this.finishItems(job, stationItems, 'skipped');
           continue;
         }
 
         logger.info(`Scraping ${stationDomain}`);
-        
-        // Track results for this station
-        const stationResults: {[date: string]: number} = {};
-        
-        for (const date of dates) {
-          try {
-            const result = await this.scraperManager.scrapeStation(stationDomain, date);
-            
-            if (result.success && result.shows.length > 0) {
-              await this.saveShows(stationDomain, date, result.shows);
-              stationResults[date] = result.shows.length;
-            } else {
-              stationResults[date] = 0;
-            }
-          } catch (error) {
-            logger.error(`Failed to scrape ${stationDomain} for ${date}:`, error);
-            stationResults[date] = 0;
-          }
-
-          // Small delay between requests
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
+        const dayHealth: DayHealth[] = [];
+
+        for (const item of stationItems) {
+          if (job.cancelRequested) break;
+
+          item.status = 'running';
+          job.progress.current = { station: stationDomain, date: item.date };
 
-        // Log station summary
-        for (const [date, count] of Object.entries(stationResults)) {
-          const dateStr = new Date(date).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
-          if (count > 0) {
-            logger.info(`    ${dateStr}.: Found ${count} Shows`);
-          } else {
-            logger.info(`    ${dateStr}.: Found nothing`);
-          }
+          const { item: result, health } = await this.scrapeDay(job.id, stationDomain, item.date, job.force);
+          if (health) dayHealth.push(health);
+          item.showsFound = result.showsFound;
+          item.changes = result.changes;
+          item.error = result.error;
+          this.finishItems(job, [item], this.getItemStatus(result));
         }
 
+        this.logStationSummary(stationItems);
+        await this.parserHealth.updateStation(stationDomain, dayHealth);
+
         // Update last scraped timestamp
-        await db.upsertStation({
-          ...station,
-          lastScraped: new Date()
-        });
+        await db.markStationScraped(stationDomain);
+
+        if (job.cancelRequested) break;
+      }
+
+      job.progress.current = undefined;
+
+      if (job.cancelRequested) {
+        this.finishItems(job, job.progress.items.filter(item => item.status === 'pending'), 'cancelled');
+        await this.finishJob(job, 'cancelled');
+        return;
       }
 
       // Cleanup old data
-      await db.cleanupOldData();
-      
-      logger.info('Scheduled scrape job completed');
+      if (job.trigger === 'cron') {
+        await db.cleanupOldData();
+      }
+
+      await this.finishJob(job, 'completed');
     } catch (error) {
-      logger.error('Scheduled scrape job failed:', error);
-    } finally {
-      this.isRunning = false;
+      logger.error(`Scrape job ${job.id} failed:`, error);
+      await this.finishJob(job, 'failed', error instanceof Error ? error.message : String(error));
     }
   }
 
-  async runManualScrape(station?: string, dates?: string[]): Promise<void> {
-    logger.info(`Starting manual scrape: station=${station || 'all'}, dates=${dates?.join(',') || 'default'}`);
+  private finishItems(job: ScrapeJob, items: ScrapeJobItem[], status: ScrapeJobItemStatus): void {
+    for (const item of items) {
+      item.status = status;
+      job.progress.finished++;
+      if (status === 'failed') {
+        job.progress.failed++;
+      } else if (status === 'unchanged') {
+        job.progress.unchanged++;
+      }
+    }
+  }
 
-    const targetStations = station ? [station] : config.stations;
-    const targetDates = dates || this.generateDateRange();
+  private getItemStatus(item: ScrapeRunItem): ScrapeJobItemStatus {
+    if (!item.success) return 'failed';
+    return item.unchanged ? 'unchanged' : 'done';
+  }
 
-    for (const stationDomain of targetStations) {
-      const stationData = await db.getStation(stationDomain);
-      if (!stationData) {
-        logger.warn(`Station not found: ${stationDomain}`);
-        continue;
-      }
+  private async finishJob(job: ScrapeJob, status: 'completed' | 'failed' | 'cancelled', error?: string): Promise<void> {
+    job.status = status;
+    job.error = error;
+    job.finishedAt = new Date().toISOString();
+    await db.finishScrapeRun(job.id, status, error);
+    logger.info(`Scrape job ${job.id} ${status}`);
+  }
 
-      for (const date of targetDates) {
-        try {
-          const result = await this.scraperManager.scrapeStation(stationDomain, date);
-          
-          if (result.success && result.shows.length > 0) {
-            await this.saveShows(stationDomain, date, result.shows);
-            logger.info(`Saved ${result.shows.length} shows for ${stationDomain} on ${date}`);
-          } else {
-            logger.warn(`No shows found for ${stationDomain} on ${date}: ${result.error || 'Unknown error'}`);
-          }
-        } catch (error) {
-          logger.error(`Failed to scrape ${stationDomain} for ${date}:`, error);
-        }
+  private logStationSummary(items: ScrapeJobItem[]): void {
+    for (const item of items) {
+      if (item.status === 'pending' || item.status === 'cancelled') continue;
 
-        // Small delay between requests
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      const dateStr = new Date(item.date).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
+      if (item.status === 'unchanged') {
+        logger.info(`    ${dateStr}.: Unchanged`);
+      } else if (item.showsFound) {
+        const changeInfo = item.changes ? `, ${item.changes} Changes` : '';
+        logger.info(`    ${dateStr}.: Found ${item.showsFound} Shows${changeInfo}`);
+      } else {
+        logger.info(`    ${dateStr}.: Found nothing`);
       }
     }
   }
 
-  private async saveShows(stationDomain: string, date: string, shows: any[]): Promise<void> {
-    // Save day record
-    await db.upsertDay({
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter(job => job.finishedAt);
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  async getJob(id: number): Promise<ScrapeJob | null> {
+    const job = this.jobs.get(id);
+    if (job) return job;
+
+    // Older jobs are rebuilt from the persisted scrape run
+    const run = await db.getScrapeRun(id);
+    if (!run) return null;
+
+    const items: ScrapeJobItem[] = (run.items || []).map(item => ({
+      station: item.stationDomain,
+      date: item.day,
+      status: this.getItemStatus(item),
+      showsFound: item.showsFound,
+      changes: item.changes,
+      error: item.error
+    }));
+
+    return {
+      id: run.id,
+      trigger: run.trigger,
+      status: run.status,
+      stations: run.stations,
+      dates: run.dates,
+      force: false,
+      progress: {
+        total: Math.max(run.stations.length * run.dates.length, items.length),
+        finished: items.length,
+        failed: run.itemsFailed,
+        unchanged: run.itemsUnchanged,
+        items
+      },
+      cancelRequested: false,
+      createdAt: run.startedAt,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      error: run.error
+    };
+  }
+
+  getJobs(): ScrapeJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => b.id - a.id);
+  }
+
+  cancelJob(id: number): ScrapeJob | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    if (job.status === 'queued') {
+      this.queue = this.queue.filter(queuedId => queuedId !== id);
+      job.cancelRequested = true;
+      this.finishItems(job, job.progress.items, 'cancelled');
+      this.finishJob(job, 'cancelled').catch(error => {
+        logger.error(`Failed to cancel scrape job ${id}:`, error);
+      });
+    } else if (job.status === 'running') {
+      // The running job stops after the current request
+      job.cancelRequested = true;
+      logger.info(`Cancellation requested for scrape job ${id}`);
+    }
+
+    return job;
+  }
+
+  private async scrapeDay(
+    runId: number,
+    stationDomain: string,
+    date: string,
+    force = false
+  ): Promise<{ item: ScrapeRunItem; health?: DayHealth }> {
+    const item: Omit<ScrapeRunItem, 'id'> = {
+      runId,
       stationDomain,
       day: date,
-      scrapedAt: new Date()
-    });
+      success: false,
+      showsFound: 0,
+      changes: 0,
+      unchanged: false,
+      warnings: [],
+      scrapedAt: new Date().toISOString()
+    };
+    let health: DayHealth | undefined;
 
-    // Convert and save shows
-    const showRecords: Show[] = shows.map(show => ({
-      day: date,
-      stationDomain,
-      dj: show.dj,
-      title: show.title,
-      start: show.start,
-      end: show.end,
-      style: show.style
-    }));
+    try {
+      const previous = force ? null : await db.getSchedulePage(stationDomain, date);
+      const result = await this.scraperManager.scrapeStation(stationDomain, date, previous);
+      item.url = result.url;
+      item.success = result.success;
+      item.httpStatus = result.httpStatus;
+      item.durationMs = result.durationMs;
+      item.warnings = result.warnings || [];
+      item.error = result.error;
 
-    await db.upsertShows(showRecords);
+      if (result.unchanged) {
+        item.unchanged = true;
+        await db.touchSchedulePage(stationDomain, date, result.etag, result.lastModified);
+      } else if (result.success) {
+        health = await this.parserHealth.evaluateDay(stationDomain, result);
+        item.itemsMatched = result.itemsMatched;
+        item.parserStatus = health.status;
+        item.warnings = [...item.warnings, ...health.reasons];
+
+        // Keep the raw page, also when nothing could be parsed from it
+        if (result.html) {
+          await db.saveSnapshot({ stationDomain, day: date, url: result.url!, httpStatus: result.httpStatus }, result.html);
+        }
+
+        // Shows missing from a page the parser may have misread would be cancelled, so only healthy
+        // pages are reconciled; an empty page is more likely a parser problem than a fully cancelled day
+        item.showsFound = result.shows.length;
+        if (health.status === 'ok' && result.shows.length > 0) {
+          const changes = await saveScrapedShows(stationDomain, date, result.shows);
+          item.changes = changes.length;
+
+          // Only remember pages whose shows were stored, so failed saves are retried
+          await db.saveSchedulePage({
+            stationDomain,
+            day: date,
+            url: result.url!,
+            etag: result.etag,
+            lastModified: result.lastModified,
+            contentHash: result.contentHash!
+          });
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to scrape ${stationDomain} for ${date}:`, error);
+      item.success = false;
+      item.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await db.addScrapeRunItem(item);
+    return { item, health };
   }
 
-  private generateDateRange(): string[] {
+  generateDateRange(station: Pick<Station, 'daysBack' | 'daysForward'>): string[] {
     const dates: string[] = [];
     const today = new Date();
-    
-    // Yesterday, today, and next 5 days
-    for (let i = -1; i <= 5; i++) {
+
+    for (let i = -station.daysBack; i <= station.daysForward; i++) {
       const date = new Date(today);
       date.setDate(today.getDate() + i);
       dates.push(date.toISOString().split('T')[0]); // YYYY-MM-DD format
@@ -218,10 +464,22 @@ export class SchedulerService {
     return dates;
   }
 
-  getStatus(): { isRunning: boolean; nextRun?: Date } {
+  // node-cron 3 tasks do not expose their next run
+  private getNextRun(): Date | undefined {
+    const nextRuns = Array.from(this.cronJobs.values())
+      .map(task => task as any)
+      .filter(task => typeof task.nextDate === 'function')
+      .map(task => task.nextDate() as Date);
+    return nextRuns.sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  getStatus(): { isRunning: boolean; nextRun?: Date; currentJob?: number; queuedJobs: number[] } {
+    const currentJob = Array.from(this.jobs.values()).find(job => job.status === 'running');
     return {
       isRunning: this.isRunning,
-      nextRun: this.cronJob ? (this.cronJob as any).nextDate() : undefined
+      nextRun: this.getNextRun(),
+      currentJob: currentJob?.id,
+      queuedJobs: [...this.queue]
     };
   }
 }
@@ -3,6 +3,10 @@ import { TelegramBotService } from '../bot';
 import { NotificationService } from './notification-service';
 import { DJScraperService } from './dj-scraper';
 import { CalDAVService } from './caldav';
+import { SnapshotService } from './snapshot-service';
+import { ParserHealthService } from './parser-health';
+import { SettingsService } from './settings';
+import { BackupService } from './backup';
 import { ScraperManager } from '../scraper';
 import { config } from '../config';
 import { logger } from '../utils/logger';
@@ -14,6 +18,10 @@ class ServiceManager {
   private notificationService: NotificationService | null = null;
   private djScraperService: DJScraperService | null = null;
   private caldavService: CalDAVService | null = null;
+  private snapshotService: SnapshotService | null = null;
+  private parserHealthService: ParserHealthService | null = null;
+  private settingsService: SettingsService | null = null;
+  private backupService: BackupService | null = null;
   private scraperManager: ScraperManager | null = null;
 
   private constructor() {}
@@ -27,11 +35,32 @@ class ServiceManager {
 
   public getSchedulerService(): SchedulerService {
     if (!this.schedulerService) {
-      this.schedulerService = new SchedulerService();
+      this.schedulerService = new SchedulerService(this.getParserHealthService());
     }
     return this.schedulerService;
   }
 
+  public getSettingsService(): SettingsService {
+    if (!this.settingsService) {
+      this.settingsService = new SettingsService(this.getSchedulerService());
+    }
+    return this.settingsService;
+  }
+
+  public getBackupService(): BackupService {
+    if (!this.backupService) {
+      this.backupService = new BackupService(this.getSchedulerService(), this.getSettingsService());
+    }
+    return this.backupService;
+  }
+
+  public getParserHealthService(): ParserHealthService {
+    if (!this.parserHealthService) {
+      this.parserHealthService = new ParserHealthService(this.getTelegramBot());
+    }
+    return this.parserHealthService;
+  }
+
   public getTelegramBot(): TelegramBotService | null {
     if (!this.telegramBot && config.telegramEnabled && config.telegramBotToken) {
       this.telegramBot = new TelegramBotService();
@@ -63,6 +92,13 @@ class ServiceManager {
     return this.caldavService;
   }
 
+  public getSnapshotService(): SnapshotService {
+    if (!this.snapshotService) {
+      this.snapshotService = new SnapshotService();
+    }
+    return this.snapshotService;
+  }
+
   public getScraperManager(): ScraperManager {
     if (!this.scraperManager) {
       this.scraperManager = new ScraperManager();
@@ -72,10 +108,15 @@ class ServiceManager {
 
   public async startServices(): Promise<void> {
     try {
+      // Stored settings apply before anything is scheduled or fetched
+      await this.getSettingsService().load();
+
       // Start scheduler
       this.getSchedulerService().start();
       logger.info('Scheduler service started');
 
+      this.getBackupService().start();
+
       // Start Telegram Bot and related services
       const telegramBot = this.getTelegramBot();
       if (telegramBot) {
@@ -108,6 +149,10 @@ class ServiceManager {
       if (this.schedulerService) {
         this.schedulerService.stop();
       }
+
+      if (this.backupService) {
+        this.backupService.stop();
+      }
       
       if (this.telegramBot) {
         await this.telegramBot.stop();
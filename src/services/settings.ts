@@ -0,0 +1,109 @@
+import { config, envConfig } from '../config';
+import { db } from '../database';
+import { stationRegistry } from '../stations';
+import { httpClient } from '../utils/http-client';
+import { logger } from '../utils/logger';
+import { Config, ConfigUpdate, SettingKey, SettingSource } from '../types';
+import { SchedulerService } from './scheduler';
+
+// Settings that can be changed via the API and the type of their values
+export const SETTING_TYPES: Record<SettingKey, 'string' | 'number'> = {
+  cronSchedule: 'string',
+  retentionDays: 'number',
+  httpProxy: 'string',
+  httpsProxy: 'string',
+  noProxy: 'string'
+};
+
+export const SETTING_KEYS = Object.keys(SETTING_TYPES) as SettingKey[];
+
+// Environment variables a setting is read from, in order of precedence
+const SETTING_ENV: Record<SettingKey, string[]> = {
+  cronSchedule: ['WAOBASE_CRON_SCHEDULE'],
+  retentionDays: ['WAOBASE_RETENTION_DAYS'],
+  httpProxy: ['WAOBASE_HTTP_PROXY'],
+  httpsProxy: ['WAOBASE_HTTPS_PROXY'],
+  noProxy: ['WAOBASE_NO_PROXY', 'NO_PROXY']
+};
+
+type Settings = Partial<Pick<Config, SettingKey>>;
+
+/**
+ * Settings changed via the API. They are stored in the database, layered over
+ * the environment and applied to the running services without a restart.
+ */
+export class SettingsService {
+  private stored: Settings = {};
+
+  constructor(private scheduler: SchedulerService) {}
+
+  async load(): Promise<void> {
+    const values = await db.getSettings();
+    this.stored = Object.fromEntries(
+      Object.entries(values).filter(([key]) => SETTING_KEYS.includes(key as SettingKey))
+    ) as Settings;
+    this.apply();
+
+    if (Object.keys(this.stored).length > 0) {
+      logger.info(`Loaded stored settings: ${Object.keys(this.stored).join(', ')}`);
+    }
+  }
+
+  // Keys other than the settings and stations are ignored; the API rejects them beforehand
+  async update(changes: ConfigUpdate): Promise<void> {
+    const { stations } = changes;
+    const settings: ConfigUpdate = Object.fromEntries(
+      Object.entries(changes).filter(([key]) => SETTING_KEYS.includes(key as SettingKey))
+    );
+
+    await db.saveSettings(settings);
+    for (const key of SETTING_KEYS) {
+      if (settings[key] === null) {
+        delete this.stored[key];
+      } else if (settings[key] !== undefined) {
+        this.stored = { ...this.stored, [key]: settings[key] };
+      }
+    }
+    this.apply();
+
+    if (stations) {
+      await this.syncStations(stations);
+    }
+    await this.scheduler.reloadStations();
+  }
+
+  getSource(key: SettingKey): SettingSource {
+    if (key in this.stored) return 'database';
+    return SETTING_ENV[key].some(name => process.env[name] !== undefined) ? 'env' : 'default';
+  }
+
+  getSources(): Record<SettingKey, SettingSource> {
+    return Object.fromEntries(SETTING_KEYS.map(key => [key, this.getSource(key)])) as Record<SettingKey, SettingSource>;
+  }
+
+  // Retention is read on every cleanup and the cron schedule on reload; the proxy is handed to the HTTP client
+  private apply(): void {
+    for (const key of SETTING_KEYS) {
+      Object.assign(config, { [key]: key in this.stored ? this.stored[key] : envConfig[key] });
+    }
+    httpClient.setProxy({
+      httpProxy: config.httpProxy,
+      httpsProxy: config.httpsProxy,
+      noProxy: config.noProxy
+    });
+  }
+
+  // Listed stations are added or enabled, all others disabled; nothing is deleted
+  private async syncStations(domains: string[]): Promise<void> {
+    for (const domain of domains) {
+      await db.upsertStation({ domain, name: stationRegistry.getStationName(domain), enabled: true });
+    }
+
+    for (const station of await db.getStations()) {
+      const enabled = domains.includes(station.domain);
+      if (station.enabled !== enabled) {
+        await db.updateStation(station.domain, { ...station, enabled });
+      }
+    }
+  }
+}
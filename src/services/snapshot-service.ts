@@ -0,0 +1,80 @@
+import { db } from '../database';
+import { logger } from '../utils/logger';
+import { ScheduleScraper } from '../scraper';
+import { stationRegistry } from '../stations';
+import { PageSnapshot, ReparseOptions, ReparseResult } from '../types';
+import { saveScrapedShows } from './schedule-store';
+
+export class SnapshotService {
+  /**
+   * Run the current parser over archived schedule pages. Without `apply` this
+   * is a dry run; with `apply` the parsed shows are reconciled like a fresh
+   * scrape, so parser fixes can be backfilled without fetching again.
+   */
+  async reparse(options: ReparseOptions = {}): Promise<ReparseResult[]> {
+    const snapshots = await this.selectSnapshots(options);
+    logger.info(`Re-parsing ${snapshots.length} snapshots${options.apply ? '' : ' (dry run)'}`);
+
+    const results: ReparseResult[] = [];
+    for (const snapshot of snapshots) {
+      results.push(await this.reparseSnapshot(snapshot, options.apply === true));
+    }
+    return results;
+  }
+
+  private async selectSnapshots(options: ReparseOptions): Promise<PageSnapshot[]> {
+    if (options.snapshotId !== undefined) {
+      const snapshot = await db.getSnapshot(options.snapshotId);
+      if (!snapshot) {
+        throw new Error(`Snapshot not found: ${options.snapshotId}`);
+      }
+      return [snapshot];
+    }
+
+    return await db.getLatestSnapshots({
+      stationDomain: options.stationDomain,
+      from: options.from,
+      to: options.to
+    });
+  }
+
+  private async reparseSnapshot(snapshot: PageSnapshot, apply: boolean): Promise<ReparseResult> {
+    const result: ReparseResult = {
+      snapshotId: snapshot.id,
+      stationDomain: snapshot.stationDomain,
+      day: snapshot.day,
+      fetchedAt: snapshot.fetchedAt,
+      itemsMatched: 0,
+      shows: [],
+      warnings: [],
+      applied: false
+    };
+
+    try {
+      const html = await db.getSnapshotHtml(snapshot.id);
+      if (html === null) {
+        throw new Error(`Snapshot not found: ${snapshot.id}`);
+      }
+
+      const scraper = new ScheduleScraper(stationRegistry.resolve(snapshot.stationDomain));
+      const { shows, itemsMatched, warnings } = scraper.parseShows(html);
+      result.itemsMatched = itemsMatched;
+      result.warnings = warnings;
+      result.shows = scraper.resolveShowTimes(shows, snapshot.day);
+
+      // Same rule as scheduled scrapes: an empty result never cancels a day
+      if (apply && result.shows.length > 0) {
+        const changes = await saveScrapedShows(snapshot.stationDomain, snapshot.day, result.shows);
+        result.applied = true;
+        result.changes = changes.length;
+      }
+
+      logger.info(`Snapshot ${snapshot.id} (${snapshot.stationDomain} ${snapshot.day}): ${result.shows.length} shows${result.applied ? `, ${result.changes} changes` : ''}`);
+    } catch (error) {
+      logger.error(`Failed to re-parse snapshot ${snapshot.id}:`, error);
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return result;
+  }
+}
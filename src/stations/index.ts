@@ -0,0 +1,73 @@
+import { StationAdapter } from '../types';
+import { WaoStationAdapter } from './wao';
+
+export { WaoStationAdapter } from './wao';
+export { parseBroadcastEvents } from './schema-org';
+
+export class StationRegistry {
+  private adapters: Map<string, StationAdapter> = new Map();
+  private names: Map<string, string> = new Map(); // Renamed via the stations API
+
+  register(adapter: StationAdapter): void {
+    this.adapters.set(adapter.domain, adapter);
+  }
+
+  get(domain: string): StationAdapter | undefined {
+    return this.adapters.get(domain);
+  }
+
+  has(domain: string): boolean {
+    return this.adapters.has(domain);
+  }
+
+  /**
+   * Returns the adapter for a station. Stations without a registered adapter
+   * are assumed to use the WAO page layout, as before adapters existed.
+   */
+  resolve(domain: string): StationAdapter {
+    let adapter = this.adapters.get(domain);
+    if (!adapter) {
+      adapter = new WaoStationAdapter(domain);
+      this.adapters.set(domain, adapter);
+    }
+    return adapter;
+  }
+
+  getStationName(domain: string): string {
+    return this.names.get(domain) || this.resolve(domain).displayName;
+  }
+
+  /**
+   * Override the display name of a station. Without a name the adapter's
+   * display name is used again.
+   */
+  setStationName(domain: string, name?: string): void {
+    if (name) {
+      this.names.set(domain, name);
+    } else {
+      this.names.delete(domain);
+    }
+  }
+
+  getAll(): StationAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
+
+export const stationRegistry = new StationRegistry();
+
+// We Are One network stations
+const waoStations: Record<string, string> = {
+  'technobase.fm': 'Technobase.FM',
+  'housetime.fm': 'Housetime.FM',
+  'hardbase.fm': 'Hardbase.FM',
+  'trancebase.fm': 'Trancebase.FM',
+  'coretime.fm': 'Coretime.FM',
+  'clubtime.fm': 'Clubtime.FM',
+  'teatime.fm': 'Teatime.FM',
+  'replay.fm': 'Replay.FM'
+};
+
+for (const [domain, name] of Object.entries(waoStations)) {
+  stationRegistry.register(new WaoStationAdapter(domain, name));
+}
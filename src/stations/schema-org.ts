@@ -0,0 +1,285 @@
+import * as cheerio from 'cheerio';
+import { ScheduleParseResult, ScrapedShow, ShowField } from '../types';
+import { formatTimeInZone, zonedTimeToDate } from '../utils/date-time';
+
+/**
+ * Layout-independent extraction of schema.org BroadcastEvents from JSON-LD
+ * or microdata. Stations that annotate their schedule this way parse even
+ * when their markup differs from the layout an adapter expects.
+ */
+
+const BROADCAST_EVENT = /^https?:\/\/schema\.org\/BroadcastEvent$/i;
+
+// Performer-like properties, `dj` is used by the WAO network
+const PERFORMER_PROPS = ['performer', 'dj', 'actor'];
+
+interface BroadcastEvent {
+  startDate?: string;
+  endDate?: string;
+  name?: string;
+  genre?: string;
+  performer?: string;
+  description?: string;
+  image?: string;
+  url?: string;
+  performerUrl?: string;
+}
+
+interface EventTime {
+  time: string; // HH:MM in the station timezone
+  at?: Date; // Only for full dates
+}
+
+/**
+ * Extract the broadcast events of a schedule page. JSON-LD is preferred when
+ * the page has any; otherwise microdata items are read. Relative links are
+ * resolved against `baseUrl`.
+ */
+export function parseBroadcastEvents(
+  html: string | cheerio.CheerioAPI,
+  timezone: string,
+  baseUrl?: string
+): ScheduleParseResult {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+  const warnings: string[] = [];
+
+  let events = readJsonLd($, warnings);
+  if (events.length === 0) {
+    events = readMicrodata($);
+  }
+
+  const shows: ScrapedShow[] = [];
+  const missingFields: Partial<Record<ShowField, number>> = {};
+  const countMissing = (field: ShowField) => {
+    missingFields[field] = (missingFields[field] || 0) + 1;
+  };
+
+  for (const event of events) {
+    const show = toShow(event, timezone, baseUrl, warnings, countMissing);
+    if (show) {
+      shows.push(show);
+    }
+  }
+
+  // Without a list element of their own, the schedule counts as found when it has events
+  return { shows, itemsMatched: events.length, containerFound: events.length > 0, missingFields, warnings };
+}
+
+function toShow(
+  event: BroadcastEvent,
+  timezone: string,
+  baseUrl: string | undefined,
+  warnings: string[],
+  countMissing: (field: ShowField) => void
+): ScrapedShow | null {
+  const start = event.startDate ? parseEventTime(event.startDate, timezone) : null;
+  const end = event.endDate ? parseEventTime(event.endDate, timezone) : null;
+  const dj = event.performer || '';
+  const title = event.name || '';
+  const style = event.genre || '';
+
+  const fields: Record<ShowField, string> = { start: start?.time || '', end: end?.time || '', dj, title, style };
+  for (const field of Object.keys(fields) as ShowField[]) {
+    if (!fields[field]) countMissing(field);
+  }
+
+  if (!start || !dj || !title) {
+    warnings.push(`Incomplete broadcast event: start=${event.startDate || ''}, dj=${dj}, title=${title}`);
+    return null;
+  }
+
+  const show: ScrapedShow = {
+    dj,
+    title,
+    start: start.time,
+    end: end?.time || addHours(start.time, 2),
+    style: style || 'Unknown',
+    description: event.description,
+    imageUrl: resolveUrl(event.image, baseUrl),
+    showUrl: resolveUrl(event.url, baseUrl),
+    djUrl: resolveUrl(event.performerUrl, baseUrl)
+  };
+
+  // Full timestamps need no guessing about overnight shows
+  if (start.at && end?.at) {
+    show.startAt = start.at.toISOString();
+    show.endAt = end.at.toISOString();
+  }
+
+  return show;
+}
+
+function resolveUrl(href: string | undefined, baseUrl: string | undefined): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(href, baseUrl ? `${baseUrl}/` : undefined).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+// Same fallback as the layout parsers: assume 2-hour shows
+function addHours(time: string, hours: number): string {
+  const [h, m] = time.split(':').map(Number);
+  return `${((h + hours) % 24).toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Accepts plain times ("20:00") and ISO dates with or without offset. Dates
+ * without an offset are station wall-clock times.
+ */
+function parseEventTime(value: string, timezone: string): EventTime | null {
+  const trimmed = value.trim();
+
+  const time = trimmed.match(/^(\d{1,2}):(\d{2})$/);
+  if (time) {
+    return { time: `${time[1].padStart(2, '0')}:${time[2]}` };
+  }
+
+  const date = trimmed.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!date) return null;
+
+  if (!date[3]) {
+    return { time: date[2], at: zonedTimeToDate(date[1], date[2], timezone) };
+  }
+
+  const at = new Date(trimmed.replace(' ', 'T'));
+  return isNaN(at.getTime()) ? null : { time: formatTimeInZone(at, timezone), at };
+}
+
+// JSON-LD
+
+function readJsonLd($: cheerio.CheerioAPI, warnings: string[]): BroadcastEvent[] {
+  const events: BroadcastEvent[] = [];
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collectJsonLdEvents(JSON.parse($(element).text()), events);
+    } catch (error) {
+      warnings.push(`Invalid JSON-LD block: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return events;
+}
+
+function collectJsonLdEvents(node: unknown, events: BroadcastEvent[]): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectJsonLdEvents(child, events));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  const object = node as Record<string, unknown>;
+  const types = ([] as unknown[]).concat(object['@type'] ?? []);
+  if (types.some(type => typeof type === 'string' && /^(https?:\/\/schema\.org\/)?BroadcastEvent$/i.test(type))) {
+    const performer = PERFORMER_PROPS.map(prop => object[prop]).find(value => jsonLdText(value));
+    // Only Person objects carry a profile link, plain names do not
+    const person = Array.isArray(performer) ? performer[0] : performer;
+    events.push({
+      startDate: jsonLdText(object.startDate),
+      endDate: jsonLdText(object.endDate),
+      name: jsonLdText(object.name),
+      genre: jsonLdText(object.genre),
+      performer: jsonLdText(performer),
+      description: jsonLdText(object.description),
+      image: jsonLdUrl(object.image),
+      url: jsonLdUrl(object.url),
+      performerUrl: person && typeof person === 'object' ? jsonLdUrl((person as Record<string, unknown>).url) : undefined
+    });
+    return;
+  }
+
+  // Events may be nested in @graph, itemListElement, subEvent, ...
+  Object.values(object).forEach(child => collectJsonLdEvents(child, events));
+}
+
+function jsonLdText(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const texts = value.map(jsonLdText).filter((text): text is string => Boolean(text));
+    return texts.length > 0 ? texts.join(', ') : undefined;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value).trim() || undefined;
+  }
+  if (value && typeof value === 'object') {
+    return jsonLdText((value as Record<string, unknown>).name);
+  }
+  return undefined;
+}
+
+// First URL of a string, an ImageObject-like object or a list of them
+function jsonLdUrl(value: unknown): string | undefined {
+  if (Array.isArray(value)) return jsonLdUrl(value[0]);
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    return jsonLdUrl(object.url ?? object.contentUrl);
+  }
+  return undefined;
+}
+
+// Microdata
+
+function readMicrodata($: cheerio.CheerioAPI): BroadcastEvent[] {
+  const events: BroadcastEvent[] = [];
+
+  $('[itemtype]').each((_, element) => {
+    const $item = $(element);
+    if (!BROADCAST_EVENT.test(($item.attr('itemtype') || '').trim())) return;
+
+    const $performer = PERFORMER_PROPS.map(prop => findProperty($, $item, prop)).find($prop => $prop.length > 0);
+    events.push({
+      startDate: microdataValue($, $item, 'startDate'),
+      endDate: microdataValue($, $item, 'endDate'),
+      name: microdataValue($, $item, 'name'),
+      genre: microdataValue($, $item, 'genre'),
+      performer: $performer ? propertyText($, $performer) : undefined,
+      description: microdataValue($, $item, 'description'),
+      image: microdataUrl($, $item, 'image'),
+      url: microdataUrl($, $item, 'url'),
+      performerUrl: $performer ? performerUrl($, $performer) : undefined
+    });
+  });
+
+  return events;
+}
+
+// A property of the item itself, not of an item nested in it
+function findProperty($: cheerio.CheerioAPI, $item: cheerio.Cheerio<any>, prop: string): cheerio.Cheerio<any> {
+  const item = $item.get(0);
+  return $item.find(`[itemprop~="${prop}"]`)
+    .filter((_, element) => $(element).parent().closest('[itemtype]').get(0) === item)
+    .first();
+}
+
+/**
+ * Text value of a property. A nested item (e.g. a Person as performer)
+ * yields its name.
+ */
+function microdataValue($: cheerio.CheerioAPI, $item: cheerio.Cheerio<any>, prop: string): string | undefined {
+  const $prop = findProperty($, $item, prop);
+  return $prop.length > 0 ? propertyText($, $prop) : undefined;
+}
+
+function propertyText($: cheerio.CheerioAPI, $prop: cheerio.Cheerio<any>): string | undefined {
+  if ($prop.is('[itemtype]')) {
+    return microdataValue($, $prop, 'name') || $prop.text().replace(/\s+/g, ' ').trim() || undefined;
+  }
+
+  const value = $prop.attr('content') ?? $prop.attr('datetime') ?? $prop.text();
+  return value.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+// URL properties live in href/src rather than in the text
+function microdataUrl($: cheerio.CheerioAPI, $item: cheerio.Cheerio<any>, prop: string): string | undefined {
+  const $prop = findProperty($, $item, prop);
+  if ($prop.length === 0) return undefined;
+  if ($prop.is('[itemtype]')) return microdataUrl($, $prop, 'url') || microdataUrl($, $prop, 'contentUrl');
+  return ($prop.attr('href') ?? $prop.attr('src') ?? $prop.attr('content'))?.trim() || undefined;
+}
+
+function performerUrl($: cheerio.CheerioAPI, $performer: cheerio.Cheerio<any>): string | undefined {
+  if ($performer.is('[itemtype]')) return microdataUrl($, $performer, 'url');
+  return ($performer.is('a') ? $performer : $performer.find('a[href]').first()).attr('href');
+}
@@ -0,0 +1,280 @@
+import * as cheerio from 'cheerio';
+import { ScheduleParseResult, ScrapedDJ, ScrapedShow, ShowField, StationAdapter } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { parseBroadcastEvents } from './schema-org';
+
+// Member entries of the team page and the element holding its sections
+const TEAM_MEMBER = '.team-member, .dj-item';
+const TEAM_CONTAINER = '.team, #team';
+
+// Headings of team sections, for pages without a team container
+const ROLE_HEADING = /\b(DJs?|Residents?|Moderator(en|in|innen)?|Hosts?|Crew|Team)\b/i;
+
+/**
+ * Adapter for the We Are One network (technobase.fm, housetime.fm, ...).
+ * All stations of the network share the same page layout.
+ */
+export class WaoStationAdapter implements StationAdapter {
+  readonly domain: string;
+  readonly displayName: string;
+  readonly timezone: string;
+  readonly baseUrl: string;
+
+  constructor(domain: string, displayName?: string, timezone?: string, baseUrl?: string) {
+    this.domain = domain;
+    this.displayName = displayName || domain;
+    this.timezone = timezone || config.timezone;
+    this.baseUrl = baseUrl || `https://www.${domain}`;
+  }
+
+  buildScheduleUrl(date: string): string {
+    // Format: https://www.{domain}/sendeplan?day=YYYY-MM-DD%2000:00:00
+    const encodedDate = `${date}%2000:00:00`;
+    return `${this.baseUrl}/sendeplan?day=${encodedDate}`;
+  }
+
+  buildTeamUrl(): string {
+    return `${this.baseUrl}/team`;
+  }
+
+  parseSchedule(html: string): ScheduleParseResult {
+    const $ = cheerio.load(html);
+    const shows: ScrapedShow[] = [];
+    const warnings: string[] = [];
+    const missingFields: Partial<Record<ShowField, number>> = {};
+    const countMissing = (field: ShowField) => {
+      missingFields[field] = (missingFields[field] || 0) + 1;
+    };
+
+    // Select schedule items; an empty list is a day without shows, a missing one a changed layout
+    const $list = $('.content-list.schedule-list');
+    const $items = $list.find('.item[itemtype="http://schema.org/BroadcastEvent"]');
+    $items.each((_, element) => {
+      try {
+        const show = this.parseShowItem($, $(element), warnings, countMissing);
+        if (show) {
+          shows.push(show);
+        }
+      } catch (error) {
+        logger.warn('Failed to parse show item:', error);
+        warnings.push(`Failed to parse show item: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+
+    // The layout changed but the items may still carry their schema.org markup
+    if (shows.length === 0) {
+      const structured = parseBroadcastEvents($, this.timezone, this.baseUrl);
+      if (structured.shows.length > 0) {
+        logger.warn(`Schedule layout of ${this.domain} not recognized, using schema.org markup`);
+        return {
+          ...structured,
+          warnings: ['Schedule layout not recognized, parsed schema.org markup', ...structured.warnings]
+        };
+      }
+    }
+
+    return { shows, itemsMatched: $items.length, containerFound: $list.length > 0, missingFields, warnings };
+  }
+
+  extractScheduleContent(html: string): string {
+    const $ = cheerio.load(html);
+    const $list = $('.content-list.schedule-list');
+
+    // Without the schedule list, compare the whole page rather than nothing
+    return $list.length > 0 ? $.html($list) : html;
+  }
+
+  private parseShowItem(
+    $: cheerio.CheerioAPI,
+    $item: cheerio.Cheerio<any>,
+    warnings: string[],
+    countMissing: (field: ShowField) => void
+  ): ScrapedShow | null {
+    // Parse time information
+    const $timeContainer = $item.find('.time-djname > h2.title');
+    const $startTime = $timeContainer.find('span[itemprop="startDate"]');
+
+    if ($startTime.length === 0) {
+      countMissing('start');
+      logger.warn('No start time found for show item');
+      warnings.push('No start time found for show item');
+      return null;
+    }
+
+    const startTime = $startTime.text().trim();
+
+    // Find end time - it's usually the next span after startDate
+    let endTime = '';
+    const $nextSpan = $startTime.next('span');
+    if ($nextSpan.length > 0) {
+      endTime = $nextSpan.text().trim();
+    } else {
+      // Fallback: try to find end time in content attribute or other locations
+      const endTimeContent = $startTime.attr('content');
+      if (endTimeContent) {
+        // Extract end time from ISO format if available
+        const endMatch = endTimeContent.match(/T(\d{2}:\d{2})/);
+        if (endMatch) {
+          endTime = endMatch[1];
+        }
+      }
+    }
+
+    // Parse show information
+    const $showInfo = $item.find('.description .show-info');
+
+    // DJ
+    const $dj = $showInfo.find('.dj-row [itemprop="dj"]');
+    const dj = $dj.text().trim() || $dj.find('a').text().trim();
+
+    // Title
+    const $title = $showInfo.find('.title-row [itemprop="name"]');
+    const title = $title.text().trim();
+
+    // Style/Genre
+    const $style = $showInfo.find('.genre-row [itemprop="genre"]');
+    const style = $style.text().trim();
+
+    // Optional details: description, cover image and links
+    const description = $item.find('[itemprop="description"]').first().text().replace(/\s+/g, ' ').trim();
+    const $image = $item.find('[itemprop="image"], img').first();
+    const imageUrl = this.resolveUrl($image.attr('src') || $image.attr('data-src') || $image.attr('content'));
+    const showUrl = this.resolveUrl($showInfo.find('.title-row a[href]').attr('href') || $item.find('a[itemprop="url"]').attr('href'));
+    const djUrl = this.resolveUrl($showInfo.find('.dj-row a[href]').attr('href'));
+
+    const fields: Record<ShowField, string> = { start: startTime, end: endTime, dj, title, style };
+    for (const field of Object.keys(fields) as ShowField[]) {
+      if (!fields[field]) countMissing(field);
+    }
+
+    // Validate required fields
+    if (!startTime || !dj || !title) {
+      const warning = `Incomplete show data: start=${startTime}, dj=${dj}, title=${title}`;
+      logger.warn(warning);
+      warnings.push(warning);
+      return null;
+    }
+
+    return {
+      dj,
+      title,
+      start: startTime,
+      end: endTime || this.calculateEndTime(startTime),
+      style: style || 'Unknown',
+      description: description || undefined,
+      imageUrl,
+      showUrl,
+      djUrl
+    };
+  }
+
+  // Links on the pages are mostly relative to the station website
+  private resolveUrl(href?: string): string | undefined {
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) return undefined;
+    try {
+      return new URL(href, `${this.baseUrl}/`).toString();
+    } catch {
+      return undefined;
+    }
+  }
+
+  calculateEndTime(startTime: string): string {
+    // Simple fallback: assume 2-hour shows
+    const [hours, minutes] = startTime.split(':').map(Number);
+    const endHours = (hours + 2) % 24;
+    return `${endHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Team pages list their members in sections ("Resident DJs", "Moderatoren",
+   * ...) below a heading; the heading becomes the role of its members.
+   * Only headings inside the team container count, or on pages without one
+   * headings naming a role, so news boxes, navigation and footer link lists
+   * are never mistaken for DJs.
+   */
+  parseTeam(html: string): ScrapedDJ[] {
+    const $ = cheerio.load(html);
+    $('header, nav, footer, script, style').remove();
+    const $container = $(TEAM_CONTAINER).first();
+    const $headings = $container.length > 0
+      ? $container.find('h2, h3, h4')
+      : $('h2, h3, h4').filter((_, heading) => ROLE_HEADING.test($(heading).text()));
+
+    const djs: ScrapedDJ[] = [];
+    const addDJ = ($entry: cheerio.Cheerio<any>, role?: string) => {
+      const dj = this.parseDJItem($, $entry, role);
+      if (dj) {
+        djs.push(dj);
+      }
+    };
+
+    $headings.each((_, heading) => {
+      const $heading = $(heading);
+      const role = $heading.text().replace(/\s+/g, ' ').trim();
+      const $section = $heading.nextUntil('h2, h3, h4');
+
+      // Member cards where the page has them, plain list items otherwise
+      let $entries = $section.filter(TEAM_MEMBER).add($section.find(TEAM_MEMBER));
+      if ($entries.length === 0) {
+        $entries = $section.find('li');
+      }
+      $entries.each((_, element) => addDJ($(element), role || undefined));
+    });
+
+    // Pages without section headings
+    if (djs.length === 0) {
+      ($container.length > 0 ? $container.find(TEAM_MEMBER) : $(TEAM_MEMBER)).each((_, element) => addDJ($(element)));
+    }
+
+    return djs;
+  }
+
+  private parseDJItem($: cheerio.CheerioAPI, $item: cheerio.Cheerio<any>, role?: string): ScrapedDJ | null {
+    const $name = $item.find('[itemprop="name"], .name, .dj-name').first();
+    const $realName = $item.find('[itemprop="alternateName"], .real-name').first();
+    const text = ($name.length > 0 ? $name : $item).text().replace(/\s+/g, ' ').trim();
+
+    // Skip if empty or too short
+    if (!text || text.length < 3) {
+      return null;
+    }
+
+    // "DJ Name", optionally followed by "### Real Name"
+    // Anchored, otherwise the lazy name group stops after the first character
+    const djMatch = text.match(/^((?:DJ\s+)?[\p{L}\p{N}\s\-\.']+?)(?:\s+###?\s+([\p{L}\s\-\.']+))?$/u);
+
+    if (!djMatch) {
+      return null;
+    }
+
+    const djName = this.cleanDJName(djMatch[1]);
+    const realName = $realName.text().replace(/\s+/g, ' ').trim() || djMatch[2]?.trim();
+
+    // Skip if name is too short or generic
+    if (djName.length < 2 || djName.toLowerCase().includes('various') || djName.toLowerCase().includes('guest')) {
+      return null;
+    }
+
+    const $link = $item.is('a[href]') ? $item : $item.find('a[href]').first();
+    const $image = $item.find('img').first();
+
+    return {
+      djName,
+      realName: realName || undefined,
+      role,
+      profileUrl: this.resolveUrl($link.attr('href')),
+      imageUrl: this.resolveUrl($image.attr('src') || $image.attr('data-src')),
+      isActive: true
+    };
+  }
+
+  // Keeps the name as listed; the canonical DJ store matches names with and without prefix
+  private cleanDJName(name: string): string {
+    return name
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/^dj\s+/i, 'DJ ')
+      .replace(/^DJ\s+DJ\s+/i, 'DJ ');
+  }
+}
@@ -1,42 +1,311 @@
-export interface Station {
+export interface Station extends StationSettings {
   domain: string;
   name?: string;
-  enabled: boolean;
   lastScraped?: Date;
 }
 
+// Settings that can be changed at runtime via the stations API
+export interface StationSettings {
+  enabled: boolean;
+  daysBack: number; // Days before today to scrape
+  daysForward: number; // Days after today to scrape
+  cronSchedule?: string; // Falls back to the global cron schedule
+}
+
+// Body of POST and PATCH /api/stations
+export interface StationUpdate extends Partial<Omit<StationSettings, 'cronSchedule'>> {
+  name?: string;
+  cronSchedule?: string | null; // null or empty: global cron schedule
+}
+
 export interface Day {
   stationDomain: string;
   day: string; // ISO YYYY-MM-DD
   scrapedAt: Date;
 }
 
-export interface Show {
+export type ShowStatus = 'scheduled' | 'changed' | 'cancelled';
+
+// Optional details of a schedule item; not tracked as schedule changes
+export interface ShowMetadata {
+  description?: string;
+  imageUrl?: string; // cover image
+  showUrl?: string; // show detail page
+  djUrl?: string; // DJ profile page
+}
+
+export interface Show extends ShowMetadata {
   id?: number;
   day: string; // ISO YYYY-MM-DD
   dj: string;
+  performers?: string[]; // DJs listed in `dj`, e.g. both sides of a B2B set
   title: string;
   start: string; // HH:MM
   end: string; // HH:MM
+  startAt: string; // ISO timestamp
+  endAt: string; // ISO timestamp, after startAt for shows crossing midnight
   style: string;
   stationDomain: string;
+  status?: ShowStatus;
   createdAt?: string;
+  updatedAt?: string;
 }
 
-export interface ScrapedShow {
+export type ShowValues = Pick<Show, 'dj' | 'title' | 'start' | 'end' | 'startAt' | 'endAt' | 'style'>;
+
+export type ShowChangeType = 'added' | 'changed' | 'cancelled';
+
+export interface ShowChange {
+  id?: number;
+  showId: number;
+  stationDomain: string;
+  day: string;
+  changeType: ShowChangeType;
+  changedFields: (keyof ShowValues)[];
+  oldValues?: ShowValues;
+  newValues?: ShowValues;
+  detectedAt: string;
+}
+
+export interface ScrapedShow extends ShowMetadata {
   dj: string;
   title: string;
   start: string;
   end: string;
   style: string;
+  // Resolved by the scraper unless the adapter already knows them
+  day?: string;
+  startAt?: string;
+  endAt?: string;
+}
+
+export interface ScrapedDJ {
+  djName: string;
+  realName?: string;
+  role?: string; // team page section, e.g. "Resident DJs"
+  profileUrl?: string;
+  imageUrl?: string;
+  isActive: boolean;
+}
+
+export interface TeamChanges {
+  added: string[];
+  reactivated: string[]; // listed again after being inactive
+  updated: string[]; // spelling, real name, role, profile link or photo changed
+  deactivated: string[]; // no longer on the team page
+}
+
+// Outcome of a team page scrape, `applied` is false for dry runs
+export interface TeamSyncResult extends TeamChanges {
+  stationDomain: string;
+  url: string;
+  djs: ScrapedDJ[];
+  applied: boolean;
+}
+
+// Canonical DJ, shared by every station and spelling of the name
+export interface DJ {
+  id: number;
+  name: string;
+  realName?: string;
+  aliases: string[]; // spellings seen on team pages and schedules
+  stations: string[]; // stations the DJ is listed or scheduled at
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ShowField = 'start' | 'end' | 'dj' | 'title' | 'style';
+
+export interface ScheduleParseResult {
+  shows: ScrapedShow[];
+  itemsMatched: number; // schedule items found in the markup, parsed or not
+  containerFound: boolean; // the schedule itself was found, possibly without items
+  missingFields: Partial<Record<ShowField, number>>; // matched items lacking the field
+  warnings: string[];
+}
+
+export type ParserStatus = 'ok' | 'degraded';
+
+export interface ParserHealthSignals {
+  containerFound: boolean;
+  itemsMatched: number;
+  showsParsed: number;
+  missingFields: Partial<Record<ShowField, number>>;
+  trailingAverage?: number; // shows per day in recent healthy scrapes of the station
+}
+
+export interface ParserHealth {
+  stationDomain: string;
+  status: ParserStatus;
+  reasons: string[];
+  since: string; // status unchanged since
+  checkedAt: string;
+}
+
+export interface StationAdapter {
+  domain: string;
+  displayName: string;
+  timezone: string;
+  baseUrl: string;
+  buildScheduleUrl(date: string): string;
+  buildTeamUrl(): string;
+  parseSchedule(html: string): ScheduleParseResult;
+  // Part of the schedule page that carries the schedule, hashed to detect changes
+  extractScheduleContent(html: string): string;
+  parseTeam(html: string): ScrapedDJ[];
 }
 
 export interface ScrapeResult {
   station: string;
   date: string;
+  url?: string;
+  shows: ScrapedShow[];
+  success: boolean;
+  httpStatus?: number;
+  durationMs?: number;
+  warnings?: string[];
+  itemsMatched?: number;
+  containerFound?: boolean;
+  missingFields?: Partial<Record<ShowField, number>>;
+  // Page not modified since the last processed scrape; shows are not parsed
+  unchanged?: boolean;
+  etag?: string;
+  lastModified?: string;
+  contentHash?: string;
+  // Raw page, kept for the snapshot archive
+  html?: string;
+  error?: string;
+}
+
+export interface SchedulePage {
+  stationDomain: string;
+  day: string;
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  contentHash: string;
+  fetchedAt: string;
+  checkedAt: string;
+}
+
+export interface PageSnapshot {
+  id: number;
+  stationDomain: string;
+  day: string;
+  url: string;
+  httpStatus?: number;
+  contentHash: string; // SHA-256 of the raw HTML
+  size: number;
+  compressedSize: number;
+  fetchedAt: string;
+}
+
+export interface PageSnapshotQuery {
+  stationDomain?: string;
+  day?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface ReparseOptions {
+  stationDomain?: string;
+  from?: string;
+  to?: string;
+  snapshotId?: number;
+  apply?: boolean; // Store the parsed shows instead of a dry run
+}
+
+export interface ReparseResult {
+  snapshotId: number;
+  stationDomain: string;
+  day: string;
+  fetchedAt: string;
+  itemsMatched: number;
   shows: ScrapedShow[];
+  warnings: string[];
+  applied: boolean;
+  changes?: number;
+  error?: string;
+}
+
+export type ScrapeTrigger = 'cron' | 'manual' | 'api';
+
+export type ScrapeRunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScrapeRunItem {
+  id?: number;
+  runId: number;
+  stationDomain: string;
+  day: string;
+  url?: string;
   success: boolean;
+  httpStatus?: number;
+  durationMs?: number;
+  showsFound: number;
+  changes: number;
+  unchanged: boolean;
+  itemsMatched?: number;
+  parserStatus?: ParserStatus; // only set for parsed pages
+  warnings: string[];
   error?: string;
+  scrapedAt: string;
+}
+
+export interface ScrapeRun {
+  id: number;
+  trigger: ScrapeTrigger;
+  status: ScrapeRunStatus;
+  stations: string[];
+  dates: string[];
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  itemsTotal: number;
+  itemsFailed: number;
+  itemsUnchanged: number;
+  showsFound: number;
+  error?: string;
+  items?: ScrapeRunItem[];
+}
+
+export type ScrapeJobItemStatus = 'pending' | 'running' | 'done' | 'unchanged' | 'failed' | 'skipped' | 'cancelled';
+
+export interface ScrapeJobItem {
+  station: string;
+  date: string;
+  status: ScrapeJobItemStatus;
+  showsFound?: number;
+  changes?: number;
+  error?: string;
+}
+
+export interface ScrapeJob {
+  id: number; // Same as the scrape run id
+  trigger: ScrapeTrigger;
+  status: ScrapeRunStatus;
+  stations: string[];
+  dates: string[];
+  force: boolean; // Ignore cached validators and re-process unchanged pages
+  progress: {
+    total: number;
+    finished: number;
+    failed: number;
+    unchanged: number;
+    current?: { station: string; date: string };
+    items: ScrapeJobItem[];
+  };
+  cancelRequested: boolean;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface ScrapeRunQuery {
+  stationDomain?: string;
+  status?: ScrapeRunStatus;
+  limit?: number;
 }
 
 export interface Config {
@@ -45,6 +314,22 @@ export interface Config {
   retentionDays: number;
   httpProxy?: string;
   httpsProxy?: string;
+  noProxy?: string;
+}
+
+// Config values that are stored in the settings table when changed via the API
+export type SettingKey = 'cronSchedule' | 'retentionDays' | 'httpProxy' | 'httpsProxy' | 'noProxy';
+
+export type SettingSource = 'default' | 'env' | 'database';
+
+// Body of PUT /api/config; null removes a stored setting
+export type ConfigUpdate = { stations?: string[] } & { [K in SettingKey]?: Config[K] | null };
+
+export interface ShowChangeQuery {
+  stationDomain?: string;
+  since?: string; // ISO timestamp
+  changeType?: ShowChangeType;
+  limit?: number;
 }
 
 export interface ApiResponse<T = any> {
@@ -52,11 +337,107 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  nextCursor?: string | null; // of paginated lists, null on the last page
 }
 
 export interface ScheduleQuery {
-  station: string;
+  station?: string; // comma-separated, all stations when not given
   date?: string;
   from?: string;
   to?: string;
+  dj?: string; // only shows this DJ performs in
+  style?: string; // comma-separated
+  timeFrom?: string; // HH:MM
+  timeTo?: string;
+  sort?: string;
+  order?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+export type ShowSort = 'start' | 'station' | 'dj' | 'title' | 'style';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Position after the last show of a page: sort value, start and id of that show
+export type ShowCursor = [string, string, number];
+
+export interface ShowQuery {
+  stations?: string[]; // all stations when empty
+  from?: string; // ISO YYYY-MM-DD, inclusive
+  to?: string;
+  performer?: string;
+  styles?: string[]; // compared without case
+  timeFrom?: string; // HH:MM, start time in the station's timezone
+  timeTo?: string; // exclusive; before timeFrom for ranges past midnight
+  includeCancelled?: boolean;
+  sort?: ShowSort; // then by start
+  order?: SortOrder;
+  limit?: number;
+  after?: ShowCursor;
+}
+
+export interface ShowPage {
+  shows: Show[];
+  nextCursor?: ShowCursor;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: { version: number; name: string }[];
+  backupPath?: string; // copy of the database before the upgrade
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: { version: number; name: string; appliedAt: string }[];
+  pending: { version: number; name: string }[];
+}
+
+export interface BackupInfo {
+  name: string;
+  size: number;
+  createdAt: string;
+  kind: 'backup' | 'migration'; // taken by the app or before a schema upgrade
+}
+
+export type SearchType = 'djs' | 'shows' | 'styles';
+
+export interface SearchQuery {
+  q: string;
+  station?: string;
+  from?: string; // ISO YYYY-MM-DD, for shows and styles
+  to?: string;
+  types?: SearchType[]; // all when not given
+  limit?: number; // per type
+}
+
+// Highlights hold the matched fields with HIGHLIGHT_START/HIGHLIGHT_END around the matches
+export interface DJSearchHit {
+  dj: DJ;
+  score: number;
+  highlights: Partial<Record<'name' | 'realName' | 'aliases', string>>;
+}
+
+export interface ShowSearchHit {
+  show: Show;
+  score: number;
+  highlights: Partial<Record<'title' | 'dj' | 'style', string>>;
+}
+
+export interface StyleSearchHit {
+  style: string;
+  showCount: number;
+  score: number;
+  highlight: string;
+}
+
+export interface SearchResults {
+  query: string;
+  fuzzy: boolean; // nothing matched exactly, the hits are close spellings
+  djs: DJSearchHit[];
+  shows: ShowSearchHit[];
+  styles: StyleSearchHit[];
 }
@@ -0,0 +1,67 @@
+/**
+ * Utility functions for converting station wall-clock times to timestamps
+ */
+
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const values: Record<string, number> = {};
+  for (const part of parts) {
+    values[part.type] = Number(part.value);
+  }
+
+  const asUtc = Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a local day (YYYY-MM-DD) and time (HH:MM) in the given
+ * timezone to a Date
+ */
+export function zonedTimeToDate(day: string, time: string, timeZone: string): Date {
+  const [year, month, dayNum] = day.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const localAsUtc = Date.UTC(year, month - 1, dayNum, hours || 0, minutes || 0);
+
+  // Offsets differ around DST switches, so correct the guess once
+  const offset = getTimeZoneOffset(new Date(localAsUtc), timeZone);
+  const corrected = getTimeZoneOffset(new Date(localAsUtc - offset), timeZone);
+  return new Date(localAsUtc - corrected);
+}
+
+/**
+ * Add days to an ISO day string (YYYY-MM-DD)
+ */
+export function addDays(day: string, days: number): string {
+  const [year, month, dayNum] = day.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, dayNum + days));
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Format a Date as YYYY-MM-DD in the given timezone
+ */
+export function formatDayInZone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+/**
+ * Format a Date as HH:MM in the given timezone
+ */
+export function formatTimeInZone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('de-DE', { timeZone, hourCycle: 'h23', hour: '2-digit', minute: '2-digit' }).format(date);
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
@@ -0,0 +1,243 @@
+import { Dispatcher, ProxyAgent, fetch } from 'undici';
+import { logger } from './logger';
+import { config } from '../config';
+import { maskProxyUrl, ProxySettings, resolveProxy } from './proxy';
+
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.status = status;
+  }
+}
+
+export interface HttpClientOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per-host token bucket: sustained rate and burst size
+  requestsPerMinute: number;
+  burst: number;
+  proxy: ProxySettings;
+}
+
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface HttpResponse extends HttpValidators {
+  url: string;
+  status: number;
+  html: string;
+  attempts: number;
+  // 304 answer to a conditional request; html is empty
+  notModified: boolean;
+}
+
+const defaultHeaders: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'de-DE,de;q=0.9,en;q=0.8',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'Connection': 'keep-alive',
+  'Upgrade-Insecure-Requests': '1'
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private capacity: number, private refillPerMs: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a token is available. Callers are served in order.
+   */
+  take(): Promise<void> {
+    const turn = this.pending.then(() => this.acquire());
+    this.pending = turn;
+    return turn;
+  }
+
+  private async acquire(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Shared HTTP client for all outbound scraping.
+ *
+ * Requests to the same host are throttled by a token bucket. Network errors,
+ * timeouts, 429 and 5xx responses are retried with jittered exponential
+ * backoff, honoring Retry-After when the server sends it.
+ */
+export class HttpClient {
+  private options: HttpClientOptions;
+  private buckets: Map<string, TokenBucket> = new Map();
+  private proxyAgents: Map<string, ProxyAgent> = new Map();
+
+  constructor(options: Partial<HttpClientOptions> = {}) {
+    this.options = {
+      timeoutMs: 15000,
+      maxRetries: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      requestsPerMinute: 30,
+      burst: 1,
+      proxy: {},
+      ...options
+    };
+  }
+
+  async fetchHtml(url: string, validators: HttpValidators = {}): Promise<HttpResponse> {
+    const { maxRetries } = this.options;
+    const dispatcher = this.getDispatcher(url);
+
+    const headers = { ...defaultHeaders };
+    if (validators.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      await this.getBucket(url).take();
+
+      let retryAfterMs: number | undefined;
+      try {
+        const response = await fetch(url, {
+          headers,
+          dispatcher,
+          signal: AbortSignal.timeout(this.options.timeoutMs)
+        });
+
+        const responseValidators: HttpValidators = {
+          etag: response.headers.get('etag') || undefined,
+          lastModified: response.headers.get('last-modified') || undefined
+        };
+
+        if (response.ok || response.status === 304) {
+          const notModified = response.status === 304;
+          const html = notModified ? '' : await response.text();
+          return { url, status: response.status, html, attempts: attempt, notModified, ...responseValidators };
+        }
+
+        // Drain the body so the connection can be reused
+        await response.arrayBuffer().catch(() => undefined);
+
+        const error = new HttpStatusError(response.status, response.statusText);
+        if (!this.isRetryableStatus(response.status) || attempt > maxRetries) {
+          throw error;
+        }
+
+        retryAfterMs = this.parseRetryAfter(response.headers.get('retry-after'));
+        logger.warn(`Request to ${url} failed with ${error.message} (attempt ${attempt}/${maxRetries + 1})`);
+      } catch (error) {
+        if (error instanceof HttpStatusError || attempt > maxRetries) {
+          throw this.normalizeError(error, url);
+        }
+        logger.warn(`Request to ${url} failed: ${this.normalizeError(error, url).message} (attempt ${attempt}/${maxRetries + 1})`);
+      }
+
+      const delay = retryAfterMs !== undefined
+        ? Math.min(retryAfterMs, this.options.maxDelayMs)
+        : this.getBackoffDelay(attempt);
+      logger.debug(`Retrying ${url} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+
+  // Proxy settings can change at runtime; agents of the old proxies are closed
+  setProxy(proxy: ProxySettings): void {
+    this.options.proxy = proxy;
+    for (const agent of this.proxyAgents.values()) {
+      agent.close().catch(() => undefined);
+    }
+    this.proxyAgents.clear();
+  }
+
+  private getDispatcher(url: string): Dispatcher | undefined {
+    const proxy = resolveProxy(url, this.options.proxy);
+    if (!proxy) return undefined;
+
+    let agent = this.proxyAgents.get(proxy);
+    if (!agent) {
+      // Credentials in the proxy URL are sent as Proxy-Authorization
+      agent = new ProxyAgent(proxy);
+      this.proxyAgents.set(proxy, agent);
+      logger.info(`Using proxy: ${maskProxyUrl(proxy)}`);
+    }
+    return agent;
+  }
+
+  private getBucket(url: string): TokenBucket {
+    const host = new URL(url).host;
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(this.options.burst, this.options.requestsPerMinute / 60000);
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+
+  private isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+  }
+
+  // Exponential backoff with jitter between 50% and 100% of the step
+  private getBackoffDelay(attempt: number): number {
+    const step = Math.min(this.options.baseDelayMs * 2 ** (attempt - 1), this.options.maxDelayMs);
+    return Math.round(step / 2 + Math.random() * step / 2);
+  }
+
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    // Either delta-seconds or an HTTP date
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value, 10) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private normalizeError(error: unknown, url: string): Error {
+    // Aborts surface as a DOMException, which is not always an Error instance
+    const name = (error as { name?: string } | null)?.name;
+    if (name === 'TimeoutError' || name === 'AbortError') {
+      return new Error(`Request to ${url} timed out after ${this.options.timeoutMs}ms`);
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
+
+export const httpClient = new HttpClient({
+  timeoutMs: config.httpTimeoutMs,
+  maxRetries: config.httpMaxRetries,
+  requestsPerMinute: config.httpRateLimit,
+  proxy: {
+    httpProxy: config.httpProxy,
+    httpsProxy: config.httpsProxy,
+    noProxy: config.noProxy
+  }
+});
@@ -0,0 +1,37 @@
+/**
+ * Utility functions for the performers of a show
+ */
+
+// "DJ A & DJ B", "DJ A b2b DJ B", "DJ A vs. DJ B", "DJ A feat. DJ B", "DJ A x DJ B", "DJ A, DJ B"
+const PERFORMER_SEPARATOR = /\s*(?:[&,]|\s(?:b\d+b|vs\.?|versus|feat\.?|ft\.?|featuring|x)\s)\s*/i;
+
+/**
+ * Split the DJ field of a show into its performers, in the order listed.
+ * Duplicates are dropped.
+ */
+export function splitPerformers(dj: string): string[] {
+  const performers: string[] = [];
+  const seen = new Set<string>();
+
+  for (const part of dj.split(PERFORMER_SEPARATOR)) {
+    const name = part.replace(/\s+/g, ' ').trim();
+    const key = normalizePerformerName(name);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    performers.push(name);
+  }
+
+  return performers;
+}
+
+/**
+ * Comparison key of a performer name: "DJ Alpha", "dj  alpha" and "Alpha"
+ * are the same performer.
+ */
+export function normalizePerformerName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^dj /, '');
+}
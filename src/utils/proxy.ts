@@ -0,0 +1,71 @@
+/**
+ * Proxy selection for outbound requests, following the usual
+ * HTTP_PROXY / HTTPS_PROXY / NO_PROXY conventions
+ */
+
+export interface ProxySettings {
+  httpProxy?: string;
+  httpsProxy?: string;
+  noProxy?: string;
+}
+
+function parseNoProxy(noProxy: string): { host: string; port?: string }[] {
+  return noProxy
+    .split(/[\s,]+/)
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map(entry => {
+      // Keep bracketed IPv6 addresses intact when splitting off the port
+      const match = entry.match(/^(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+      const host = (match ? match[1] : entry).replace(/^\*?\./, '');
+      return { host, port: match?.[2] };
+    });
+}
+
+/**
+ * Whether a request to the given URL must bypass the proxy. Entries match the
+ * host itself and all of its subdomains; `*` disables the proxy entirely.
+ */
+export function shouldBypassProxy(url: URL, noProxy?: string): boolean {
+  if (!noProxy) return false;
+
+  const hostname = url.hostname.toLowerCase();
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return parseNoProxy(noProxy).some(entry => {
+    if (entry.host === '*') return true;
+    if (entry.port && entry.port !== port) return false;
+    return hostname === entry.host || hostname.endsWith(`.${entry.host}`);
+  });
+}
+
+/**
+ * Returns the proxy URL to use for a request, or undefined for a direct connection
+ */
+export function resolveProxy(url: string, settings: ProxySettings): string | undefined {
+  const target = new URL(url);
+  const proxy = target.protocol === 'https:'
+    ? settings.httpsProxy || settings.httpProxy
+    : settings.httpProxy;
+
+  if (!proxy || shouldBypassProxy(target, settings.noProxy)) {
+    return undefined;
+  }
+  return proxy;
+}
+
+/**
+ * Hide proxy credentials in logs and API responses
+ */
+export function maskProxyUrl(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    if (url.username || url.password) {
+      url.username = url.username ? '***' : '';
+      url.password = url.password ? '***' : '';
+    }
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return proxy.replace(/\/\/[^@/]*@/, '//***@');
+  }
+}
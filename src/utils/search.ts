@@ -0,0 +1,89 @@
+/**
+ * Utility functions for the full-text search. The search indexes use the
+ * trigram tokenizer: a term matches anywhere inside a word once it has at
+ * least three characters.
+ */
+
+export const MIN_TERM_LENGTH = 3;
+
+// Marks around matched text in highlights
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+/**
+ * Lowercase text without diacritics, as the search index compares it:
+ * "Zoë" and "zoe" are the same.
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Words of a search query, folded; punctuation separates words
+export function searchTerms(query: string): string[] {
+  return foldText(query).split(/[^\p{L}\p{N}]+/u).filter(term => term);
+}
+
+// FTS5 query matching every term of at least MIN_TERM_LENGTH characters
+export function matchExpression(terms: string[]): string | undefined {
+  const indexed = terms.filter(term => term.length >= MIN_TERM_LENGTH);
+  return indexed.length > 0 ? indexed.map(term => `"${term}"`).join(' ') : undefined;
+}
+
+/**
+ * FTS5 query for close spellings: any trigram of any term. It finds
+ * candidates only; `fuzzyDistance` decides which of them match.
+ */
+export function fuzzyMatchExpression(terms: string[]): string | undefined {
+  const trigrams = new Set<string>();
+  for (const term of terms.filter(term => term.length >= MIN_TERM_LENGTH)) {
+    for (let i = 0; i + MIN_TERM_LENGTH <= term.length; i++) {
+      trigrams.add(term.slice(i, i + MIN_TERM_LENGTH));
+    }
+  }
+  return trigrams.size > 0 ? [...trigrams].map(trigram => `"${trigram}"`).join(' OR ') : undefined;
+}
+
+/**
+ * Sum of the edits needed to find every term in the text, or undefined when
+ * a term is too far from every word. One edit is allowed per four characters
+ * of a term; terms shorter than MIN_TERM_LENGTH have to match exactly.
+ */
+export function fuzzyDistance(terms: string[], text: string): number | undefined {
+  const folded = foldText(text);
+  const words = searchTerms(text);
+  let total = 0;
+
+  for (const term of terms) {
+    if (folded.includes(term)) continue;
+    if (term.length < MIN_TERM_LENGTH) return undefined;
+
+    const allowed = Math.max(1, Math.floor(term.length / 4));
+    // Prefixes too, so "alpah" finds "alphaville"
+    const distance = Math.min(...words.map(word => Math.min(
+      editDistance(term, word),
+      editDistance(term, word.slice(0, term.length))
+    )));
+    if (distance > allowed) return undefined;
+    total += distance;
+  }
+
+  return total;
+}
+
+// Levenshtein distance where swapping two neighbouring characters is one edit
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}